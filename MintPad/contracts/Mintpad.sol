@@ -2,194 +2,413 @@
 pragma solidity ^0.8.30;
 
 /**
- * NOTE: Known Issue - Day 0 Double-Claim Vulnerability (Not exploited in production)
+ * Mintpad V2
  *
- * This contract has a potential double-claim bug for day 0 rewards:
- * - `userTokenLastClaimDay` uses 0 for both "never claimed" (default) and "claimed up to day 0"
- * - If a user claims on day 1 (when endDay = 0), their lastClaimedDay is set to 0
- * - On subsequent claims, the code interprets lastClaimedDay = 0 as "never claimed"
- * - This allows day 0 rewards to be claimed twice
+ * Successor to Mintpad V1 (0xfb51D2120c27bB56D91221042cb2dd2866a647fE on Base), which had a day 0
+ * double-claim bug: V1's `userTokenLastClaimDay` used 0 for both "never claimed" (default) and
+ * "claimed up to day 0", so day 0 rewards could be claimed twice.
  *
- * This issue was discovered at day 2 when the contract was already deployed.
- * No exploits occurred because no users claimed on day 1 (when endDay would be 0).
- * From day 2 onwards, endDay >= 1, so lastClaimedDay is always >= 1 (unambiguous).
- *
- * FIX FOR FUTURE DEPLOYMENTS:
- * Store `lastClaimedDay + 1` instead of `lastClaimedDay` in the mapping, so that:
+ * V2 stores `lastClaimedDay + 1` instead, exposed as `userTokenNextClaimDay`:
  *   - 0 = never claimed (default)
  *   - 1 = claimed up to day 0
  *   - 2 = claimed up to day 1
  *   - etc.
- * Then check `storedValue == 0` for "never claimed" and decode as `lastClaimedDay = storedValue - 1`.
+ *
+ * MIGRATION FROM V1:
+ * When deployed with the V1 address, V2 shares V1's day numbering and the owner can import the outstanding
+ * unclaimed state (daily stats, per-user per-token votes and last claim days) directly from V1 storage.
+ * Days before the cut-over are rewarded with V1's `dailyHuntReward` at deployment, as V1 would have paid them.
+ * V1's HUNT balance should be drained via `refundHUNT` before importing so rewards cannot be claimed on both.
+ * Call `finishMigration` once done; the import functions are permanently disabled afterwards.
+ *
+ * ADMIN MODULE:
+ * Owner and guardian functions are implemented in MintpadAdmin, which the constructor deploys as
+ * `ADMIN_MODULE`, and are delegatecalled from here to keep Mintpad within the 24KB contract size limit.
+ * Both contracts inherit MintpadStorage, so state is shared and the ABI is unchanged. User functions that are
+ * called far less often than voting and claiming are delegated the same way: creator functions (donation presets
+ * and creator reward claims), operator approvals, signed voting point top-ups and vote commitments. Read-only
+ * views that only need public state live in MintpadLens.
+ *
+ * BONUS POOLS:
+ * Sponsored per-token HUNT pools live in MintpadBonusPools, which is deployed separately for this Mintpad and
+ * registered once by the owner with `setBonusPools`.
+ * Claims settle a token's bonus for the same days as the base reward, so the bonus is minted together with it.
+ *
+ * CREATOR REWARDS:
+ * The owner can route a share of each day's reward pool to the bond creators of the voted tokens with
+ * `setCreatorShare`, split pro rata to the raw votes each token received. Creators claim it with
+ * `claimCreatorReward`, either as HUNT or minted as their own token.
+ *
+ * COMMIT-REVEAL VOTING:
+ * Since `Voted` events are public, late voters can pile onto leading tokens. On days the owner switches to
+ * commit-reveal (`setCommitRevealMode`), users only commit a hash of their votes (`commitVotes`) during the day
+ * and cast them with `revealVotes` on the following day. Unrevealed votes are forfeited, and claims for the day
+ * open once the reveal day has ended.
+ *
+ * TRUSTLESS VOTING POINTS:
+ * Besides signed allocations, users can activate the voting points computed on-chain by `votingPointSource`
+ * with `activateVotingPointFromSource`, so voting keeps working if the signer is down. The source is set by the
+ * owner; MintpadStaking derives points from HUNT and Mini Buildings staked into it, with a cooldown to unstake.
  */
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
-
-contract Mintpad is Ownable {
+import {Checkpoints} from "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {MintpadStorage, IMintpadV1, IVotingPointSource, IMintpadBonusPools} from "./MintpadStorage.sol";
+import {MintpadAdmin, IMintpadAdmin} from "./MintpadAdmin.sol";
+
+contract Mintpad is MintpadStorage, IMintpadAdmin {
     using SafeERC20 for IERC20;
-    // MARK: - Errors
-    error Mintpad__InvalidParams(string param);
-    error Mintpad__InsufficientVotingPoints();
-    error Mintpad__NothingToClaim();
-    error Mintpad__ExcessiveLeftover(uint256 actualHuntSpent);
-    error Mintpad__InvalidSignature();
-    error Mintpad__AlreadyActivated();
+    using Checkpoints for Checkpoints.Trace224;
+    using EnumerableSet for EnumerableSet.AddressSet;
 
     // MARK: - Constants
-    IERC20 private constant HUNT = IERC20(0x37f0c2915CeCC7e977183B8543Fc0864d03E064C);
-    IMCV2_Bond public constant BOND = IMCV2_Bond(0xc5a076cad94176c2996B32d8466Be1cE757FAa27);
-    uint256 public constant VOTE_EXPIRATION_DAYS = 30;
-    uint256 private constant SECONDS_PER_DAY = 86400;
     uint256 private constant MIN_CLAIM_EFFICIENCY_PERCENT = 98; // 98% minimum efficiency
-    uint256 private immutable DEPLOYMENT_TIMESTAMP;
+    uint256 private constant QUADRATIC_WEIGHT_SCALE = 1e12; // sqrt(votes * 1e12) = sqrt(votes) * 1e6
 
-    // EIP-712 Domain
-    bytes32 private constant DOMAIN_TYPEHASH =
-        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    // EIP-712 Types
     bytes32 private constant VOTING_POINT_TYPEHASH =
         keccak256("VotingPoint(address user,uint256 day,uint32 votingPoint)");
-    bytes32 private immutable DOMAIN_SEPARATOR;
-
-    // MARK: - State Variables
-    address public signer;
-    uint256 public dailyHuntReward; // Daily HUNT reward pool (in Wei)
-
-    /// @dev Daily statistics for vote and claim tracking
-    struct DailyStats {
-        uint32 totalVotingPointGiven; // Total voting points allocated for the day
-        uint32 totalVotingPointSpent; // Total voting points spent for the day
-        uint32 votingCount; // Number of vote transactions for the day
-        uint32 claimCount; // Number of claim transactions for the day
-        uint88 totalHuntClaimed; // Total HUNT claimed for the day (in Wei)
-    }
-    /// @notice Maps day => DailyStats
-    mapping(uint256 => DailyStats) public dailyStats;
-
-    /// @dev Daily voting points for each user. Activated by user with signature, deducted on vote
-    struct VotingPoint {
-        uint32 activated;
-        uint32 left;
-    }
-    /// @notice Maps day => user => voting points (activated and remaining)
-    mapping(uint256 => mapping(address => VotingPoint)) public dailyUserVotingPoint;
-
-    /// @notice Maps day => user => token => voting points spent
-    mapping(uint256 => mapping(address => mapping(address => uint32))) public dailyUserTokenVotes;
-
-    /// @notice Maps user => token => last day claimed
-    /// @dev Tracks the last day rewards were claimed to prevent double-claiming
-    mapping(address => mapping(address => uint256)) public userTokenLastClaimDay;
-
-    // MARK: - Events
-    event SignerAddressUpdated(address newSignerAddress);
-    event DailyHuntRewardUpdated(uint256 newDailyHuntReward);
-    event VotingPointActivated(uint256 indexed day, address indexed user, uint32 votingPoint);
-    event Voted(uint256 indexed day, address indexed user, address indexed token, uint32 voteAmount);
-    event Claimed(
-        address indexed user,
-        address indexed token,
-        uint256 dayClaimedUpTo,
-        uint256 actualHuntSpent,
-        uint256 tokensMinted,
-        uint256 indexed donationBp
-    );
+    bytes32 private constant VOTE_TYPEHASH =
+        keccak256("Vote(address user,uint256 day,address token,uint32 amount,uint256 nonce,uint256 deadline)");
+
+    /// @notice Module that owner, guardian and infrequent user functions are delegated to
+    address public immutable ADMIN_MODULE;
 
     // MARK: - Constructor
     /**
      * @notice Initializes the Mintpad contract
-     * @param signerAddress Address authorized to sign voting point activations
+     * @param signerAddress Initial address authorized to sign voting point activations (uncapped)
      * @param initialDailyHuntReward Initial daily HUNT reward pool (in Wei)
-     * @dev Sets deployment day timestamp to UTC midnight (00:00) of deployment day for consistent day boundaries
+     * @param previousMintpad Mintpad V1 address to migrate state from (zero address for a fresh deployment)
+     * @param epochLength Length of a day in seconds (86400 in production, e.g. 3600 for testnet rehearsals)
+     * @param genesisTimestamp Start of day 0 (0 = start of the current epoch, i.e. UTC midnight for 86400)
+     * @dev Without a genesis timestamp, day 0 starts at the epoch boundary before deployment for consistent
+     * day boundaries. When migrating, V1's deployment timestamp and day length are reused so day numbers match
+     * across both contracts.
      */
-    constructor(address signerAddress, uint256 initialDailyHuntReward) Ownable(msg.sender) {
+    constructor(
+        address signerAddress,
+        uint256 initialDailyHuntReward,
+        address previousMintpad,
+        uint256 epochLength,
+        uint256 genesisTimestamp
+    )
+        MintpadStorage(
+            _resolveGenesis(previousMintpad, epochLength, genesisTimestamp),
+            epochLength,
+            previousMintpad,
+            address(this)
+        )
+    {
         if (signerAddress == address(0)) revert Mintpad__InvalidParams("zero address");
         if (initialDailyHuntReward == 0) revert Mintpad__InvalidParams("dailyHuntReward cannot be zero");
 
-        signer = signerAddress;
+        signerDailyCap[signerAddress] = type(uint32).max;
         dailyHuntReward = initialDailyHuntReward;
-        // Set to start of deployment day (UTC midnight 00:00) for consistent day boundaries
-        DEPLOYMENT_TIMESTAMP = (block.timestamp / SECONDS_PER_DAY) * SECONDS_PER_DAY;
-
-        // Initialize EIP-712 domain separator
-        DOMAIN_SEPARATOR = keccak256(
-            abi.encode(
-                DOMAIN_TYPEHASH,
-                keccak256(bytes("Mintpad")),
-                keccak256(bytes("1")),
-                block.chainid,
-                address(this)
-            )
-        );
 
-        // Pre-approve HUNT to BOND contract for gas-efficient minting
+        uint256 rewardFromDay;
+        if (previousMintpad != address(0)) {
+            migrationOpen = true;
+            // Claims made on V1 are not tracked per vote day, so days before the cut-over are never swept
+            rewardFromDay = getCurrentDay();
+            nextSweepDay = rewardFromDay;
+            // V1 pays every day at its current reward, so migrated days keep that reward
+            _dailyHuntRewardHistory.push(0, SafeCast.toUint224(IMintpadV1(previousMintpad).dailyHuntReward()));
+        }
+        _dailyHuntRewardHistory.push(SafeCast.toUint32(rewardFromDay), SafeCast.toUint224(initialDailyHuntReward));
+
+        ADMIN_MODULE = address(new MintpadAdmin(DEPLOYMENT_TIMESTAMP, EPOCH_LENGTH, previousMintpad));
+
+        // Pre-approve HUNT to BOND and BOND_PERIPHERY contracts for gas-efficient minting
         HUNT.approve(address(BOND), type(uint256).max);
+        HUNT.approve(address(BOND_PERIPHERY), type(uint256).max);
+    }
+
+    /**
+     * @dev Validates the epoch parameters and returns the start of day 0
+     * Without a genesis timestamp, day 0 starts at the start of the deployment epoch (UTC midnight 00:00 for
+     * daily epochs). When migrating, V1's deployment timestamp is reused.
+     */
+    function _resolveGenesis(
+        address previousMintpad,
+        uint256 epochLength,
+        uint256 genesisTimestamp
+    ) private view returns (uint256) {
+        if (epochLength == 0) revert Mintpad__InvalidParams("epochLength cannot be zero");
+        if (genesisTimestamp > block.timestamp) revert Mintpad__InvalidParams("genesisTimestamp in the future");
+
+        if (previousMintpad == address(0)) {
+            return genesisTimestamp == 0 ? (block.timestamp / epochLength) * epochLength : genesisTimestamp;
+        }
+        if (epochLength != SECONDS_PER_DAY || genesisTimestamp != 0) {
+            revert Mintpad__InvalidParams("epoch must match V1");
+        }
+        return IMintpadV1(previousMintpad).getDeploymentTimestamp();
     }
 
     // MARK: - Modifiers
-    modifier _validChildToken(address token) {
-        if (token == address(0)) revert Mintpad__InvalidParams("zero address");
-        if (IERC20Metadata(token).decimals() != 18) revert Mintpad__InvalidParams("not an ERC20 token");
-        (, , , , address reserveToken, ) = BOND.tokenBond(token);
-        if (reserveToken != address(HUNT)) revert Mintpad__InvalidParams("not HUNT child token");
+    modifier _onlyOperator(address user, address token) {
+        if (!isApprovedOperator(user, msg.sender, token)) revert Mintpad__NotOperator();
+        _;
+    }
 
+    modifier _whenNotPaused(PauseSwitch pauseSwitch) {
+        if (paused[pauseSwitch]) revert Mintpad__Paused(pauseSwitch);
+        _;
+    }
+
+    modifier _validChildToken(address token) {
+        _validateChildToken(token);
         _;
     }
 
     // MARK: - Admin Functions
 
+    /// @inheritdoc IMintpadAdmin
+    function setSigner(address, uint32) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setVotingPointSource(address) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setBonusPools(address) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function revokeSigner(address) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setLargeAllocationPolicy(uint32, uint8) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setGuardian(address) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function pause(PauseSwitch) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function pauseAll() external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function unpause(PauseSwitch) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setDailyHuntReward(uint256) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setRewardMode(uint32, bool) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setStreakMultiplier(uint16, uint32) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setRunwayAlertDays(uint256) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function refundHUNT(uint256) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function sweepExpiredHunt(address, uint256) external returns (uint256 amount) {
+        amount = abi.decode(_delegateToAdmin(), (uint256));
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setTokenDenied(address, bool) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setTokenAllowed(address, bool) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setAllowlistOnly(bool) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function voidTokenVotes(address) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setCreatorShare(uint16) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setCommitRevealMode(bool) external {
+        _delegateToAdmin();
+    }
+
+    // MARK: - Creator Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function setDonationPreset(address, bytes32, DonationSplit[] calldata) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function claimCreatorReward(
+        address,
+        bool,
+        uint256
+    ) external returns (uint256 actualHuntSpent, uint256 tokensMinted) {
+        (actualHuntSpent, tokensMinted) = abi.decode(_delegateToAdmin(), (uint256, uint256));
+    }
+
+    // MARK: - Operator Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function setOperator(address, address, bool) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setOperatorBySig(address, address, address, bool, uint256, bytes calldata) external {
+        _delegateToAdmin();
+    }
+
+    // MARK: - Voting Preparation Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function topUpVotingPoint(address, uint32, uint256, bytes calldata) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function commitVotes(bytes32) external {
+        _delegateToAdmin();
+    }
+
+    // MARK: - Migration Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function migrateDailyStats(uint256[] calldata) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function migrateUserTokenVotes(uint256[] calldata, address[] calldata, address[] calldata) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function migrateUserTokenLastClaimDays(address[] calldata, address[] calldata) external {
+        _delegateToAdmin();
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function finishMigration() external {
+        _delegateToAdmin();
+    }
+
     /**
-     * @notice Updates the authorized signer address for voting point activations
-     * @param newSignerAddress The new signer address
-     * @dev Only callable by contract owner
+     * @dev Forwards the current call to ADMIN_MODULE, bubbling up any revert
+     * @return The data returned by the admin module
      */
-    function updateSignerAddress(address newSignerAddress) external onlyOwner {
-        if (newSignerAddress == address(0)) revert Mintpad__InvalidParams("zero address");
-        signer = newSignerAddress;
-        emit SignerAddressUpdated(newSignerAddress);
+    function _delegateToAdmin() private returns (bytes memory) {
+        return Address.functionDelegateCall(ADMIN_MODULE, msg.data);
     }
 
+    // MARK: - View Functions
+
     /**
-     * @notice Sets the daily HUNT reward pool amount
-     * @param newDailyHuntReward The new daily HUNT reward pool (in Wei)
-     * @dev Only callable by contract owner. Applies to future days, not retroactively.
-     * NOTE: This change affects unclaimed rewards from past days! The reward calculation uses the
-     * current dailyHuntReward value for ALL days when computing claims. If you lower the reward,
-     * users who voted in the past but haven't claimed yet will receive less than they would have
-     * received at the time they voted. Similarly, increasing the reward will give users more than
-     * expected for their past votes.
+     * @notice Returns the daily HUNT reward pool that applies to a given day
+     * @param day The day number to query
+     * @return The HUNT reward pool for the day (in Wei)
+     * @dev Future days return the currently scheduled reward, which may still change until that day starts
      */
-    function setDailyHuntReward(uint256 newDailyHuntReward) external onlyOwner {
-        if (newDailyHuntReward == 0) revert Mintpad__InvalidParams("dailyHuntReward cannot be zero");
-        dailyHuntReward = newDailyHuntReward;
-        emit DailyHuntRewardUpdated(newDailyHuntReward);
+    function getDailyHuntReward(uint256 day) external view returns (uint256) {
+        return _dailyHuntRewardHistory.upperLookupRecent(SafeCast.toUint32(day));
     }
 
     /**
-     * @notice Emergency function to refund HUNT tokens to the owner
-     * @param amount The amount of HUNT to refund (in Wei)
-     * @dev Only callable by contract owner. Use with caution as it affects contract balance
+     * @notice Returns the reward mode in effect on a given day
+     * @param day The day number to query
+     * @return userTokenVoteCap Maximum votes per user per token that earn rewards (0 = no cap)
+     * @return quadratic Whether votes are weighted by their square root
      */
-    function refundHUNT(uint256 amount) external onlyOwner {
-        if (amount == 0) revert Mintpad__InvalidParams("amount cannot be zero");
-        if (amount > HUNT.balanceOf(address(this))) revert Mintpad__InvalidParams("insufficient balance");
+    function getRewardMode(uint256 day) public view returns (uint32 userTokenVoteCap, bool quadratic) {
+        uint224 mode = _rewardModeHistory.upperLookupRecent(SafeCast.toUint32(day));
+        userTokenVoteCap = uint32(mode);
+        quadratic = mode >> 32 != 0;
+    }
 
-        HUNT.safeTransfer(msg.sender, amount);
+    /**
+     * @notice Returns the streak multiplier settings in effect on a given day
+     * @param day The day number to query
+     * @return bonusBpPerDay Multiplier added per consecutive voting day after the first (0 = streaks are off)
+     * @return maxMultiplierBp Cap on the multiplier (10000 = 1x)
+     */
+    function getStreakMultiplierConfig(uint256 day) public view returns (uint16 bonusBpPerDay, uint32 maxMultiplierBp) {
+        uint224 config = _streakMultiplierHistory.upperLookupRecent(SafeCast.toUint32(day));
+        bonusBpPerDay = uint16(config >> 32);
+        maxMultiplierBp = uint32(config);
     }
 
-    // MARK: - View Functions
+    /**
+     * @notice Returns the reward multiplier for votes cast on a day by a user with the given streak
+     * @param day The day number to query
+     * @param streak Consecutive voting days up to and including that day
+     * @return The multiplier in basis points (10000 = 1x), or 0 if streak multipliers are off on that day
+     */
+    function getStreakMultiplier(uint256 day, uint256 streak) public view returns (uint256) {
+        (uint16 bonusBpPerDay, uint32 maxMultiplierBp) = getStreakMultiplierConfig(day);
+        if (bonusBpPerDay == 0) return 0;
+        if (streak <= 1) return 10000;
+        return Math.min(10000 + (streak - 1) * bonusBpPerDay, maxMultiplierBp);
+    }
 
     /**
-     * @notice Returns the current day number since contract deployment
-     * @return Current day (0 = deployment day, increments at UTC midnight 00:00)
-     * @dev Day boundaries align with UTC timezone (00:00-23:59:59)
-     * @dev Voting is allowed only on the current day; claims are available starting the next day
+     * @notice Returns the full daily HUNT reward schedule
+     * @return fromDays The first day each reward value applies to (ascending)
+     * @return rewards The daily HUNT reward pool (in Wei) starting from the corresponding day
      */
-    function getCurrentDay() public view returns (uint256) {
-        return (block.timestamp - DEPLOYMENT_TIMESTAMP) / SECONDS_PER_DAY;
+    function getDailyHuntRewardHistory() external view returns (uint256[] memory fromDays, uint256[] memory rewards) {
+        uint256 length = _dailyHuntRewardHistory.length();
+        fromDays = new uint256[](length);
+        rewards = new uint256[](length);
+        for (uint256 i = 0; i < length; ++i) {
+            Checkpoints.Checkpoint224 memory checkpoint = _dailyHuntRewardHistory.at(uint32(i));
+            fromDays[i] = checkpoint._key;
+            rewards[i] = checkpoint._value;
+        }
     }
 
     // MARK: - Write Functions (User)
@@ -197,53 +416,190 @@ contract Mintpad is Ownable {
     /**
      * @notice Activates daily voting points for the current day using a signed permit
      * @param votingPoint The amount of voting points to activate
-     * @param signature The EIP-712 signature from the authorized signer
-     * @dev Can only be called once per day per user. Requires valid signature from the signer address
+     * @param signature The EIP-712 signature from an authorized signer (concatenated signatures for co-signing)
+     * @dev Can only be called once per day per user (see topUpVotingPoint). Requires valid signature(s) from
+     * authorized signers
      */
     function activateVotingPoint(uint32 votingPoint, bytes calldata signature) external {
-        if (votingPoint == 0) revert Mintpad__InvalidParams("votingPoint cannot be zero");
+        _activateVotingPoint(msg.sender, getCurrentDay(), votingPoint, signature);
+    }
 
-        address user = msg.sender;
-        uint256 day = getCurrentDay();
+    /**
+     * @notice Activates daily voting points on behalf of a user (e.g. by a relayer)
+     * @param user The user whose voting points are activated
+     * @param votingPoint The amount of voting points to activate
+     * @param signature The EIP-712 signature from the authorized signer, issued for `user`
+     * @dev Same rules as activateVotingPoint(). Safe to relay because the signature is bound to the user and day
+     */
+    function activateVotingPointFor(address user, uint32 votingPoint, bytes calldata signature) external {
+        _activateVotingPoint(user, getCurrentDay(), votingPoint, signature);
+    }
 
-        // Ensure user hasn't already activated voting points for today
-        if (dailyUserVotingPoint[day][user].activated > 0) {
-            revert Mintpad__AlreadyActivated();
-        }
+    /**
+     * @notice Activates today's voting points computed on-chain by the voting point source, without a signature
+     * @dev Keeps voting available when the signer is down. Can only be called once per day per user, and cannot
+     * be combined with a signed activation on the same day
+     */
+    function activateVotingPointFromSource() external {
+        IVotingPointSource source = votingPointSource;
+        if (address(source) == address(0)) revert Mintpad__InvalidParams("no voting point source");
+
+        _setActivatedVotingPoint(msg.sender, getCurrentDay(), source.getVotingPoint(msg.sender));
+    }
+
+    /**
+     * @notice Votes for a specific token using allocated voting points
+     * @param token The address of the child token to vote for
+     * @param voteAmount The amount of voting points to spend
+     * @dev Voting points must be activated first via activateVotingPoint()
+     */
+    function vote(address token, uint32 voteAmount) external {
+        _vote(msg.sender, getCurrentDay(), token, voteAmount);
+    }
+
+    /**
+     * @notice Submits a vote signed by the user, allowing a relayer to pay the gas
+     * @param user The voter who signed the vote intent
+     * @param day The day the vote intent was signed for (must be the current day)
+     * @param token The address of the child token to vote for
+     * @param voteAmount The amount of voting points to spend
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature EIP-712 signature of Vote(user, day, token, amount, nonce, deadline) by the user
+     * @dev The user's current nonce (voteNonces) is part of the signed message and is consumed on success
+     */
+    function voteBySig(
+        address user,
+        uint256 day,
+        address token,
+        uint32 voteAmount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert Mintpad__SignatureExpired();
+        if (day != getCurrentDay()) revert Mintpad__InvalidParams("day");
 
         // Verify EIP-712 signature
-        bytes32 structHash = keccak256(abi.encode(VOTING_POINT_TYPEHASH, user, day, votingPoint));
+        uint256 nonce = voteNonces[user];
+        bytes32 structHash = keccak256(abi.encode(VOTE_TYPEHASH, user, day, token, voteAmount, nonce, deadline));
         bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
-        address recoveredSigner = ECDSA.recover(digest, signature);
+        if (ECDSA.recover(digest, signature) != user) revert Mintpad__InvalidSignature();
 
-        if (recoveredSigner != signer) {
-            revert Mintpad__InvalidSignature();
+        // Consume nonce to prevent replay attacks
+        unchecked {
+            voteNonces[user] = nonce + 1;
         }
 
-        // Activate voting points for user (set both activated and left to the same initial value)
-        dailyUserVotingPoint[day][user] = VotingPoint({activated: votingPoint, left: votingPoint});
+        _vote(user, day, token, voteAmount);
+    }
 
-        // Update daily statistics
-        unchecked {
-            // Safe: uint32 max is ~4.3B, daily total voting points cannot exceed HUNT total supply (198M)
-            // controlled by off-chain signature system
-            dailyStats[day].totalVotingPointGiven += votingPoint;
+    /**
+     * @notice Votes for multiple tokens in a single transaction
+     * @param tokens The addresses of the child tokens to vote for
+     * @param voteAmounts The amount of voting points to spend on each token
+     * @dev Voting points must be activated first via activateVotingPoint()
+     */
+    function voteMultiple(
+        address[] calldata tokens,
+        uint32[] calldata voteAmounts
+    ) external _whenNotPaused(PauseSwitch.Voting) {
+        _voteMultiple(msg.sender, getCurrentDay(), tokens, voteAmounts, false);
+    }
+
+    /**
+     * @notice Activates daily voting points and votes for multiple tokens in a single transaction
+     * @param votingPoint The amount of voting points to activate
+     * @param signature The EIP-712 signature from the authorized signer
+     * @param tokens The addresses of the child tokens to vote for
+     * @param voteAmounts The amount of voting points to spend on each token
+     * @dev Same rules as activateVotingPoint() followed by voteMultiple()
+     */
+    function activateAndVote(
+        uint32 votingPoint,
+        bytes calldata signature,
+        address[] calldata tokens,
+        uint32[] calldata voteAmounts
+    ) external _whenNotPaused(PauseSwitch.Voting) {
+        address user = msg.sender;
+        uint256 day = getCurrentDay();
+
+        _activateVotingPoint(user, day, votingPoint, signature);
+        _voteMultiple(user, day, tokens, voteAmounts, false);
+    }
+
+    /**
+     * @notice Reveals and casts the votes committed on the previous day
+     * @param day The commit-reveal day the votes were committed on (must be yesterday)
+     * @param tokens The addresses of the child tokens to vote for
+     * @param voteAmounts The amount of voting points to spend on each token
+     * @param salt The secret salt included in the commitment
+     * @dev Same rules as voteMultiple() applied to the committed day. Votes that are not revealed by the end of
+     * the following day are forfeited, and claims for the committed day open once that day ends.
+     * Votes for tokens denylisted since the commitment, or voided on the committed day, are skipped and their
+     * points forfeited, so the rest of the reveal still counts.
+     * Not affected by the Voting pause: reveals only open for one day, so pausing them would forfeit votes
+     * committed before the pause. Pause Claiming instead to hold back rewards for the committed day
+     */
+    function revealVotes(uint256 day, address[] calldata tokens, uint32[] calldata voteAmounts, bytes32 salt) external {
+        address user = msg.sender;
+        if (day + 1 != getCurrentDay()) revert Mintpad__InvalidReveal();
+        if (dailyVoteCommitments[day][user] != keccak256(abi.encode(user, day, tokens, voteAmounts, salt))) {
+            revert Mintpad__InvalidReveal();
         }
 
-        emit VotingPointActivated(day, user, votingPoint);
+        delete dailyVoteCommitments[day][user];
+        _voteMultiple(user, day, tokens, voteAmounts, true);
     }
 
     /**
-     * @notice Votes for a specific token using allocated voting points
-     * @param token The address of the child token to vote for
-     * @param voteAmount The amount of voting points to spend
-     * @dev Voting points must be activated first via activateVotingPoint()
+     * @notice Moves votes cast today from one token to another
+     * @param fromToken The child token to take votes from
+     * @param toToken The child token to move votes to
+     * @param amount The amount of votes to move
+     * @dev Only votes of the current day can be moved. DailyStats totals are unchanged
      */
-    function vote(address token, uint32 voteAmount) external _validChildToken(token) {
-        if (voteAmount == 0) revert Mintpad__InvalidParams("voteAmount");
+    function reallocateVote(
+        address fromToken,
+        address toToken,
+        uint32 amount
+    ) external _whenNotPaused(PauseSwitch.Voting) _validChildToken(toToken) {
+        if (amount == 0) revert Mintpad__InvalidParams("amount");
+        if (fromToken == toToken) revert Mintpad__InvalidParams("same token");
 
         address user = msg.sender;
         uint256 day = getCurrentDay();
+        if (dailyTokenVoided[day][fromToken]) revert Mintpad__TokenNotAllowed(fromToken);
+        if (dailyTokenVoided[day][toToken]) revert Mintpad__TokenNotAllowed(toToken);
+
+        uint32 fromVotes = dailyUserTokenVotes[day][user][fromToken];
+        if (amount > fromVotes) revert Mintpad__InsufficientVotingPoints();
+        uint32 toVotes = dailyUserTokenVotes[day][user][toToken];
+
+        unchecked {
+            // Safe: amount <= fromVotes, and the user's total votes for the day are unchanged
+            dailyUserTokenVotes[day][user][fromToken] = fromVotes - amount;
+            dailyUserTokenVotes[day][user][toToken] = toVotes + amount;
+            dailyTokenVotes[day][fromToken] -= amount;
+            dailyTokenVotes[day][toToken] += amount;
+            _dailyTokens[day].add(toToken);
+            _dailyUserTokens[day][user].add(toToken);
+
+            _updateVoteWeight(day, user, fromToken, fromVotes, fromVotes - amount);
+            _updateVoteWeight(day, user, toToken, toVotes, toVotes + amount);
+        }
+
+        emit VoteReallocated(day, user, fromToken, toToken, amount);
+    }
+
+    /**
+     * @dev Validates and casts a single vote, deducting from the user's remaining voting points
+     */
+    function _vote(
+        address user,
+        uint256 day,
+        address token,
+        uint32 voteAmount
+    ) private _whenNotPaused(PauseSwitch.Voting) _validChildToken(token) {
+        if (voteAmount == 0) revert Mintpad__InvalidParams("voteAmount");
 
         // Check user's remaining voting points
         uint32 remainingPoints = dailyUserVotingPoint[day][user].left;
@@ -254,7 +610,6 @@ contract Mintpad is Ownable {
         unchecked {
             // Update user voting status (deduct from left, keep activated as original)
             dailyUserVotingPoint[day][user].left = remainingPoints - voteAmount;
-            dailyUserTokenVotes[day][user][token] += voteAmount;
 
             // Update daily stats (gas optimization: single SSTORE with explicit packing)
             DailyStats storage stats = dailyStats[day];
@@ -262,9 +617,200 @@ contract Mintpad is Ownable {
             stats.votingCount += 1;
         }
 
+        _castVote(day, user, token, voteAmount);
+    }
+
+    /**
+     * @dev Verifies the signer's permit and activates a user's voting points for the day
+     */
+    function _activateVotingPoint(address user, uint256 day, uint32 votingPoint, bytes calldata signature) private {
+        _setActivatedVotingPoint(user, day, votingPoint);
+
+        bytes32 structHash = keccak256(abi.encode(VOTING_POINT_TYPEHASH, user, day, votingPoint));
+        _verifyVotingPointSignatures(structHash, day, votingPoint, votingPoint, signature);
+    }
+
+    /**
+     * @dev Activates a user's voting points for the day once the caller has established the amount
+     */
+    function _setActivatedVotingPoint(
+        address user,
+        uint256 day,
+        uint32 votingPoint
+    ) private _whenNotPaused(PauseSwitch.Activation) {
+        if (votingPoint == 0) revert Mintpad__InvalidParams("votingPoint cannot be zero");
+
+        // Ensure user hasn't already activated voting points for today
+        if (dailyUserVotingPoint[day][user].activated > 0) {
+            revert Mintpad__AlreadyActivated();
+        }
+
+        // Activate voting points for user (set both activated and left to the same initial value)
+        dailyUserVotingPoint[day][user] = VotingPoint({activated: votingPoint, left: votingPoint, streak: 0});
+
+        // Update daily statistics
+        unchecked {
+            // Safe: uint32 max is ~4.3B, daily total voting points cannot exceed HUNT total supply (198M)
+            // controlled by off-chain signature system or bounded by staked HUNT in the voting point source
+            dailyStats[day].totalVotingPointGiven += votingPoint;
+        }
+
+        emit VotingPointActivated(day, user, votingPoint);
+    }
+
+    /**
+     * @dev Casts a batch of votes, updating the user's remaining points and daily statistics once per batch.
+     * Each token counts as one vote in DailyStats.votingCount, matching the emitted Voted events.
+     * With `skipDisallowed`, votes for tokens that can no longer receive votes are skipped instead of reverting.
+     * Callers are responsible for the Voting pause check
+     */
+    function _voteMultiple(
+        address user,
+        uint256 day,
+        address[] calldata tokens,
+        uint32[] calldata voteAmounts,
+        bool skipDisallowed
+    ) private {
+        uint256 length = tokens.length;
+        if (length == 0) revert Mintpad__InvalidParams("tokens cannot be empty");
+        if (voteAmounts.length != length) revert Mintpad__InvalidParams("array length mismatch");
+
+        VotingPoint storage userVotingPoint = dailyUserVotingPoint[day][user];
+        uint32 remainingPoints = userVotingPoint.left;
+        uint32 totalVoteAmount;
+        uint32 voteCount;
+
+        for (uint256 i = 0; i < length; ++i) {
+            address token = tokens[i];
+            uint32 voteAmount = voteAmounts[i];
+            if (voteAmount == 0) revert Mintpad__InvalidParams("voteAmount");
+            if (
+                skipDisallowed &&
+                (tokenDenied[token] || (allowlistOnly && !tokenAllowed[token]) || dailyTokenVoided[day][token])
+            ) {
+                emit RevealedVoteSkipped(day, user, token, voteAmount);
+                continue;
+            }
+            _validateChildToken(token);
+
+            if (voteAmount > remainingPoints) {
+                revert Mintpad__InsufficientVotingPoints();
+            }
+
+            unchecked {
+                // Safe: total votes cannot exceed the user's activated points (uint32)
+                remainingPoints -= voteAmount;
+                totalVoteAmount += voteAmount;
+                ++voteCount;
+            }
+
+            _castVote(day, user, token, voteAmount);
+        }
+
+        unchecked {
+            userVotingPoint.left = remainingPoints;
+
+            // Update daily stats (gas optimization: single SSTORE with explicit packing)
+            DailyStats storage stats = dailyStats[day];
+            stats.totalVotingPointSpent += totalVoteAmount;
+            stats.votingCount += voteCount;
+        }
+    }
+
+    /**
+     * @dev Records a user's vote for a token. Callers are responsible for validation and DailyStats updates
+     */
+    function _castVote(uint256 day, address user, address token, uint32 voteAmount) private {
+        if (dailyTokenVoided[day][token]) revert Mintpad__TokenNotAllowed(token);
+        // Votes on commit-reveal days are only cast by revealVotes() once the day has ended
+        if (day == getCurrentDay() && isCommitRevealDay(day)) revert Mintpad__VotesMustBeCommitted();
+
+        _recordVoteStreak(day, user);
+
+        uint32 userVotes = dailyUserTokenVotes[day][user][token];
+        unchecked {
+            // Safe: bounded by the user's activated points for the day (uint32)
+            dailyUserTokenVotes[day][user][token] = userVotes + voteAmount;
+            // Safe: bounded by the day's total voting points (uint32)
+            dailyTokenVotes[day][token] += voteAmount;
+            _dailyTokens[day].add(token);
+            _dailyUserTokens[day][user].add(token);
+
+            _updateVoteWeight(day, user, token, userVotes, userVotes + voteAmount);
+        }
+
         emit Voted(day, user, token, voteAmount);
     }
 
+    /**
+     * @dev Records the user's streak for the day on their first vote of the day, which fixes the multiplier for all
+     * of the user's votes on that day. The streak extends the previous day's, so reveals cast after the user's
+     * votes on the following day still count. Only revealed votes count: a user who votes before revealing the
+     * previous day's commitment starts a new streak. userVoteStreaks only moves forward to the latest day
+     */
+    function _recordVoteStreak(uint256 day, address user) private {
+        VotingPoint storage votingPoint = dailyUserVotingPoint[day][user];
+        if (votingPoint.streak != 0) return;
+
+        uint32 length = 1;
+        if (day > 0) {
+            unchecked {
+                // Safe: a streak cannot outgrow the number of days (uint32)
+                length = dailyUserVotingPoint[day - 1][user].streak + 1;
+            }
+        }
+        votingPoint.streak = length;
+
+        if (day >= userVoteStreaks[user].lastDay) {
+            userVoteStreaks[user] = VoteStreak({lastDay: uint32(day), length: length});
+        }
+    }
+
+    /**
+     * @dev Keeps shaped vote weight totals in sync when a user's votes on a token change.
+     * No-op on days with the default linear reward mode and no streak multiplier, which use
+     * DailyStats.totalVotingPointSpent instead
+     */
+    function _updateVoteWeight(uint256 day, address user, address token, uint256 oldVotes, uint256 newVotes) private {
+        (uint32 userTokenVoteCap, bool quadratic) = getRewardMode(day);
+        uint256 multiplierBp = getStreakMultiplier(day, dailyUserVotingPoint[day][user].streak);
+        if (userTokenVoteCap == 0 && !quadratic && multiplierBp == 0) return;
+
+        uint256 oldWeight = _getVoteWeight(oldVotes, userTokenVoteCap, quadratic, multiplierBp);
+        uint256 newWeight = _getVoteWeight(newVotes, userTokenVoteCap, quadratic, multiplierBp);
+        if (oldWeight == newWeight) return;
+
+        // oldWeight is part of both totals, so subtracting first cannot underflow
+        dailyTotalVoteWeight[day] = dailyTotalVoteWeight[day] - oldWeight + newWeight;
+        dailyTokenVoteWeight[day][token] = dailyTokenVoteWeight[day][token] - oldWeight + newWeight;
+    }
+
+    /**
+     * @dev Returns the reward weight of a user's votes on a token under the given reward mode and streak multiplier.
+     * On days with streak multipliers every weight is in basis point units, so the multiplier is not divided out
+     */
+    function _getVoteWeight(
+        uint256 votes,
+        uint32 userTokenVoteCap,
+        bool quadratic,
+        uint256 multiplierBp
+    ) private pure returns (uint256 weight) {
+        if (userTokenVoteCap != 0 && votes > userTokenVoteCap) votes = userTokenVoteCap;
+        weight = quadratic ? Math.sqrt(votes * QUADRATIC_WEIGHT_SCALE) : votes;
+        if (multiplierBp != 0) weight *= multiplierBp;
+    }
+
+    /**
+     * @dev Reverts unless the token is an 18-decimal Mint Club V2 token backed by HUNT
+     */
+    function _validateChildToken(address token) private view {
+        if (token == address(0)) revert Mintpad__InvalidParams("zero address");
+        if (tokenDenied[token] || (allowlistOnly && !tokenAllowed[token])) revert Mintpad__TokenNotAllowed(token);
+        if (IERC20Metadata(token).decimals() != 18) revert Mintpad__InvalidParams("not an ERC20 token");
+        (, , , , address reserveToken, ) = BOND.tokenBond(token);
+        if (reserveToken != address(HUNT)) revert Mintpad__InvalidParams("not HUNT child token");
+    }
+
     /**
      * @notice Claims accumulated HUNT rewards for a specific token and mints tokens
      * @param token The address of the child token to claim for
@@ -272,22 +818,192 @@ contract Mintpad is Ownable {
      * @param donationBp Donation amount in basis points (0-10000, where 100 = 1%)
      * @return actualHuntSpent The actual amount of HUNT spent on minting
      * @dev Claims rewards from all unclaimed days up to yesterday (max 30 days).
-     * NOTE: Reward calculation uses the CURRENT dailyHuntReward value for all past days.
-     * If the owner changes the reward amount, your claimable rewards will change accordingly.
+     * Each day is rewarded with the dailyHuntReward that was in effect on that day.
      */
     function claim(address token, uint256 tokensToMint, uint256 donationBp) external returns (uint256 actualHuntSpent) {
-        if (tokensToMint == 0) revert Mintpad__InvalidParams("tokensToMint must be greater than 0");
-        if (donationBp > 10000) revert Mintpad__InvalidParams("donationBp cannot exceed 10000");
+        actualHuntSpent = _claim(msg.sender, token, tokensToMint, _getCreatorSplit(token, donationBp));
+        _recordClaims(1, actualHuntSpent);
+    }
 
-        address user = msg.sender;
+    /**
+     * @notice Claims accumulated HUNT rewards for a token, donating shares of the minted tokens to several recipients
+     * @param token The address of the child token to claim for
+     * @param tokensToMint The desired amount of tokens to mint
+     * @param splits Donation recipients and their basis points (at most 10, summing to at most 10000)
+     * @return actualHuntSpent The actual amount of HUNT spent on minting
+     * @dev Same rules as claim(). Emits Donated for every recipient
+     */
+    function claimWithSplits(
+        address token,
+        uint256 tokensToMint,
+        DonationSplit[] calldata splits
+    ) external returns (uint256 actualHuntSpent) {
+        actualHuntSpent = _claim(msg.sender, token, tokensToMint, splits);
+        _recordClaims(1, actualHuntSpent);
+    }
 
-        // Calculate total claimable HUNT from all eligible days
-        (uint256 totalHuntToClaim, uint256 endDay) = _getClaimableHunt(user, token);
+    /**
+     * @notice Claims accumulated HUNT rewards for a token, donating according to a preset registered by its creator
+     * @param token The address of the child token to claim for
+     * @param tokensToMint The desired amount of tokens to mint
+     * @param presetName The name of the creator's donation preset (see setDonationPreset)
+     * @param maxDonationBp The highest total donation the claimer accepts, so the creator cannot raise
+     * the preset between signing and execution
+     * @return actualHuntSpent The actual amount of HUNT spent on minting
+     * @dev Same rules as claim(). Reverts if the preset does not exist or donates more than maxDonationBp
+     */
+    function claimWithPreset(
+        address token,
+        uint256 tokensToMint,
+        bytes32 presetName,
+        uint256 maxDonationBp
+    ) external returns (uint256 actualHuntSpent) {
+        DonationSplit[] memory splits = _donationPresets[token][presetName];
+        if (splits.length == 0) revert Mintpad__InvalidParams("preset not found");
+        if (_validateDonationSplits(splits) > maxDonationBp) {
+            revert Mintpad__InvalidParams("preset exceeds maxDonationBp");
+        }
 
-        if (totalHuntToClaim == 0) revert Mintpad__NothingToClaim();
+        actualHuntSpent = _claim(msg.sender, token, tokensToMint, splits);
+        _recordClaims(1, actualHuntSpent);
+    }
 
-        // Update last claimed day before external calls (prevents double-claiming, follows CEI pattern)
-        userTokenLastClaimDay[user][token] = endDay;
+    /**
+     * @notice Claims accumulated HUNT rewards for multiple tokens in a single transaction
+     * @param tokens The addresses of the child tokens to claim for
+     * @param tokensToMint The desired amount of tokens to mint for each token
+     * @param donationBps Donation amount in basis points for each token (0-10000, where 100 = 1%)
+     * @return actualHuntSpent The actual amount of HUNT spent on minting for each token
+     * @dev Applies the same rules as claim() to every token; reverts if any of them fails
+     */
+    function claimMultiple(
+        address[] calldata tokens,
+        uint256[] calldata tokensToMint,
+        uint256[] calldata donationBps
+    ) external returns (uint256[] memory actualHuntSpent) {
+        uint256 length = tokens.length;
+        if (length == 0) revert Mintpad__InvalidParams("tokens cannot be empty");
+        if (tokensToMint.length != length || donationBps.length != length) {
+            revert Mintpad__InvalidParams("array length mismatch");
+        }
+
+        actualHuntSpent = new uint256[](length);
+        uint256 totalHuntSpent;
+        for (uint256 i = 0; i < length; ++i) {
+            actualHuntSpent[i] = _claim(
+                msg.sender,
+                tokens[i],
+                tokensToMint[i],
+                _getCreatorSplit(tokens[i], donationBps[i])
+            );
+            totalHuntSpent += actualHuntSpent[i];
+        }
+
+        _recordClaims(length, totalHuntSpent);
+    }
+
+    /**
+     * @notice Claims accumulated HUNT rewards for a token, spending all of it on minting
+     * @param token The address of the child token to claim for
+     * @param minTokensToMint The minimum amount of tokens to mint (slippage protection)
+     * @param donationBp Donation amount in basis points (0-10000, where 100 = 1%)
+     * @return tokensMinted The amount of tokens minted
+     * @dev Unlike claim(), the mint amount is computed on-chain by BOND_PERIPHERY from the claimable HUNT,
+     * so the claim does not fail when the bonding curve moves between quote and inclusion
+     */
+    function claimMax(
+        address token,
+        uint256 minTokensToMint,
+        uint256 donationBp
+    ) external returns (uint256 tokensMinted) {
+        uint256 actualHuntSpent;
+        (tokensMinted, actualHuntSpent) = _claimMax(
+            msg.sender,
+            token,
+            minTokensToMint,
+            _getCreatorSplit(token, donationBp)
+        );
+        _recordClaims(1, actualHuntSpent);
+    }
+
+    /**
+     * @notice Claims a user's accumulated HUNT rewards for a token as an approved operator
+     * @param user The user whose rewards are claimed (receives the minted tokens)
+     * @param token The address of the child token to claim for
+     * @param tokensToMint The desired amount of tokens to mint
+     * @return actualHuntSpent The actual amount of HUNT spent on minting
+     * @dev Same rules as claim() without donation. Caller must be the user or an operator approved
+     * for this token or for all tokens
+     */
+    function claimFor(
+        address user,
+        address token,
+        uint256 tokensToMint
+    ) external _onlyOperator(user, token) returns (uint256 actualHuntSpent) {
+        actualHuntSpent = _claim(user, token, tokensToMint, new DonationSplit[](0));
+        _recordClaims(1, actualHuntSpent);
+    }
+
+    /**
+     * @notice Claims a user's accumulated HUNT rewards for a token as an approved operator, spending all of it
+     * @param user The user whose rewards are claimed (receives the minted tokens)
+     * @param token The address of the child token to claim for
+     * @param minTokensToMint The minimum amount of tokens to mint (slippage protection)
+     * @return tokensMinted The amount of tokens minted
+     * @dev Same rules as claimMax() without donation. Caller must be the user or an approved operator
+     */
+    function claimMaxFor(
+        address user,
+        address token,
+        uint256 minTokensToMint
+    ) external _onlyOperator(user, token) returns (uint256 tokensMinted) {
+        uint256 actualHuntSpent;
+        (tokensMinted, actualHuntSpent) = _claimMax(user, token, minTokensToMint, new DonationSplit[](0));
+        _recordClaims(1, actualHuntSpent);
+    }
+
+    /**
+     * @notice Claims a user's accumulated HUNT rewards for multiple tokens as an approved operator
+     * @param user The user whose rewards are claimed (receives the minted tokens)
+     * @param tokens The addresses of the child tokens to claim for
+     * @param tokensToMint The desired amount of tokens to mint for each token
+     * @return actualHuntSpent The actual amount of HUNT spent on minting for each token
+     * @dev Same rules as claimFor() applied to every token; reverts if any of them fails
+     */
+    function claimMultipleFor(
+        address user,
+        address[] calldata tokens,
+        uint256[] calldata tokensToMint
+    ) external returns (uint256[] memory actualHuntSpent) {
+        uint256 length = tokens.length;
+        if (length == 0) revert Mintpad__InvalidParams("tokens cannot be empty");
+        if (tokensToMint.length != length) revert Mintpad__InvalidParams("array length mismatch");
+
+        actualHuntSpent = new uint256[](length);
+        uint256 totalHuntSpent;
+        for (uint256 i = 0; i < length; ++i) {
+            if (!isApprovedOperator(user, msg.sender, tokens[i])) revert Mintpad__NotOperator();
+            actualHuntSpent[i] = _claim(user, tokens[i], tokensToMint[i], new DonationSplit[](0));
+            totalHuntSpent += actualHuntSpent[i];
+        }
+
+        _recordClaims(length, totalHuntSpent);
+    }
+
+    /**
+     * @dev Claims a user's rewards for a single token, mints tokens and transfers them out.
+     * Daily statistics are updated separately by the caller via _recordClaims().
+     */
+    function _claim(
+        address user,
+        address token,
+        uint256 tokensToMint,
+        DonationSplit[] memory splits
+    ) private returns (uint256 actualHuntSpent) {
+        if (tokensToMint == 0) revert Mintpad__InvalidParams("tokensToMint must be greater than 0");
+        uint256 donationBp = _validateDonationSplits(splits);
+
+        (uint256 totalHuntToClaim, uint256 endDay) = _settleClaimableHunt(user, token);
 
         // Execute mint through BOND contract with slippage protection
         actualHuntSpent = BOND.mint(token, tokensToMint, totalHuntToClaim, address(this));
@@ -301,31 +1017,94 @@ contract Mintpad is Ownable {
             }
         }
 
-        // Transfer tokens to user (with optional creator donation)
-        if (donationBp > 0) {
-            (address creator, , , , , ) = BOND.tokenBond(token);
-            unchecked {
-                // Safe: donationAmount <= tokensToMint (donationBp validated <= 10000)
-                uint256 donationAmount = (tokensToMint * donationBp) / 10000;
-                IERC20(token).safeTransfer(creator, donationAmount);
-                IERC20(token).safeTransfer(user, tokensToMint - donationAmount);
-            }
-        } else {
-            IERC20(token).safeTransfer(user, tokensToMint);
+        _transferMinted(user, token, tokensToMint, splits);
+
+        emit Claimed(user, token, endDay, actualHuntSpent, tokensToMint, donationBp);
+    }
+
+    /**
+     * @dev Claims a user's rewards for a single token by spending exactly the claimable HUNT through
+     * BOND_PERIPHERY. Daily statistics are updated separately by the caller via _recordClaims().
+     */
+    function _claimMax(
+        address user,
+        address token,
+        uint256 minTokensToMint,
+        DonationSplit[] memory splits
+    ) private returns (uint256 tokensMinted, uint256 actualHuntSpent) {
+        uint256 donationBp = _validateDonationSplits(splits);
+
+        (uint256 totalHuntToClaim, uint256 endDay) = _settleClaimableHunt(user, token);
+
+        // Mint with the full claimable HUNT amount; minTokensToMint protects against curve movement
+        uint256 huntBalanceBefore = HUNT.balanceOf(address(this));
+        tokensMinted = BOND_PERIPHERY.mintWithReserveAmount(token, totalHuntToClaim, minTokensToMint, address(this));
+        actualHuntSpent = huntBalanceBefore - HUNT.balanceOf(address(this));
+
+        _transferMinted(user, token, tokensMinted, splits);
+
+        emit Claimed(user, token, endDay, actualHuntSpent, tokensMinted, donationBp);
+    }
+
+    /**
+     * @dev Calculates a user's claimable HUNT for a token, including any bonus pool HUNT, and marks those days
+     * as claimed. Must be called before any external calls (prevents double-claiming, follows CEI pattern)
+     */
+    function _settleClaimableHunt(
+        address user,
+        address token
+    ) private _whenNotPaused(PauseSwitch.Claiming) returns (uint256 totalHuntToClaim, uint256 endDay) {
+        uint256 startDay;
+        (startDay, endDay) = _getClaimRange(user, token);
+
+        // Calculate total claimable HUNT from all eligible days, recording claims against each vote day
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            uint256 dayReward = getUserDailyReward(day, user, token);
+            if (dayReward == 0) continue;
+
+            dailyHuntClaimed[day] += dayReward;
+            totalHuntToClaim += dayReward;
         }
 
-        // Update daily statistics (gas optimization: single SSTORE)
+        // Update next claimable day
         unchecked {
-            uint256 currentDay = getCurrentDay();
-            DailyStats memory stats = dailyStats[currentDay];
-            // Safe: uint88 max is ~3.09e26 wei, HUNT total supply is 198M (1.98e26 wei)
-            // Daily claims cannot exceed total HUNT supply
-            stats.totalHuntClaimed += uint88(actualHuntSpent);
-            ++stats.claimCount;
-            dailyStats[currentDay] = stats;
+            userTokenNextClaimDay[user][token] = endDay + 1;
         }
 
-        emit Claimed(user, token, endDay, actualHuntSpent, tokensToMint, donationBp);
+        // The bonus for the same days is transferred in from the token's bonus pool
+        IMintpadBonusPools pools = bonusPools;
+        if (address(pools) != address(0)) totalHuntToClaim += pools.claimBonus(user, token, startDay, endDay);
+
+        if (totalHuntToClaim == 0) revert Mintpad__NothingToClaim();
+    }
+
+    /**
+     * @dev Transfers minted tokens to the donation recipients and the rest to the user
+     */
+    function _transferMinted(address user, address token, uint256 tokensMinted, DonationSplit[] memory splits) private {
+        uint256 userAmount = tokensMinted;
+        for (uint256 i = 0; i < splits.length; ++i) {
+            unchecked {
+                // Safe: splits are validated to sum to at most 10000 bp, so donations never exceed tokensMinted
+                uint256 donationAmount = (tokensMinted * splits[i].bp) / 10000;
+                userAmount -= donationAmount;
+                IERC20(token).safeTransfer(splits[i].recipient, donationAmount);
+                emit Donated(user, token, splits[i].recipient, donationAmount);
+            }
+        }
+        IERC20(token).safeTransfer(user, userAmount);
+    }
+
+    /**
+     * @dev Returns a single donation split to the token's bond creator (empty if donationBp is 0)
+     */
+    function _getCreatorSplit(address token, uint256 donationBp) private view returns (DonationSplit[] memory splits) {
+        if (donationBp == 0) return splits;
+        if (donationBp > 10000) revert Mintpad__InvalidParams("donationBp cannot exceed 10000");
+
+        (address creator, , , , , ) = BOND.tokenBond(token);
+        splits = new DonationSplit[](1);
+        splits[0] = DonationSplit({recipient: creator, bp: uint16(donationBp)});
     }
 
     // MARK: - Public View Functions
@@ -336,7 +1115,8 @@ contract Mintpad is Ownable {
      * @param token The token's address
      * @return totalHuntToClaim The total HUNT amount claimable (in Wei)
      * @return endDay The last day included in this calculation (yesterday)
-     * @dev Aggregates rewards from all unclaimed days within the 30-day expiration window
+     * @dev Aggregates rewards from all unclaimed days within the 30-day expiration window, including the
+     * token's bonus pool (see MintpadBonusPools)
      */
     function getClaimableHunt(
         address user,
@@ -365,10 +1145,8 @@ contract Mintpad is Ownable {
 
     /**
      * @dev Internal helper to calculate claimable HUNT for a user-token pair.
-     * Calculates rewards from unclaimed days within the 30-day expiration window.
-     * NOTE: This function uses the CURRENT dailyHuntReward value for calculating ALL past days.
-     * If the owner changes dailyHuntReward via setDailyHuntReward(), this will retroactively affect
-     * all unclaimed rewards, even for votes cast when a different reward amount was in effect.
+     * Calculates rewards from unclaimed days within the 30-day expiration window,
+     * using the dailyHuntReward snapshot recorded for each day.
      * @param user The user's address
      * @param token The token's address
      * @return totalHuntToClaim The total HUNT amount claimable (in Wei)
@@ -378,90 +1156,134 @@ contract Mintpad is Ownable {
         address user,
         address token
     ) private view returns (uint256 totalHuntToClaim, uint256 endDay) {
-        uint256 currentDay = getCurrentDay();
+        uint256 startDay;
+        (startDay, endDay) = _getClaimRange(user, token);
+
+        // Accumulate rewards from all eligible days (max 30 iterations)
+        // Gas cost: First SLOAD per slot costs 2100 gas, subsequent accesses cost 100 gas
+        // Worst case: 30 days × 3 SLOADs + reward lookups = ~100,000 gas for loop (safe on Base chain)
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            totalHuntToClaim += getUserDailyReward(day, user, token);
+        }
+        IMintpadBonusPools pools = bonusPools;
+        if (address(pools) != address(0)) totalHuntToClaim += pools.getBonusHunt(user, token, startDay, endDay);
 
-        // Cannot claim for the current day, only completed days (up to yesterday)
-        if (currentDay == 0) return (0, 0);
+        return (totalHuntToClaim, endDay);
+    }
 
-        unchecked {
-            endDay = currentDay - 1; // Safe: currentDay > 0
-
-            // Calculate the 30-day expiration floor
-            uint256 expiryFloorDay = currentDay > VOTE_EXPIRATION_DAYS ? currentDay - VOTE_EXPIRATION_DAYS : 0;
-
-            // Get the last day this user claimed for this token
-            uint256 lastClaimedDay = userTokenLastClaimDay[user][token];
-
-            // Determine the start day for reward calculation
-            uint256 startDay;
-            if (lastClaimedDay == 0) {
-                // First time claiming: start from expiry floor or day 0
-                startDay = expiryFloorDay;
-            } else {
-                // Subsequent claim: start from day after last claim (within expiry window)
-                startDay = lastClaimedDay >= expiryFloorDay ? lastClaimedDay + 1 : expiryFloorDay;
-            }
+    /**
+     * @dev Returns the range of days a user can currently claim for a token.
+     * The range is empty (startDay > endDay) when there is nothing to claim.
+     * @return startDay The first unclaimed day within the 30-day expiration window
+     * @return endDay The last day that can be claimed (yesterday, or the day before while yesterday's
+     * committed votes can still be revealed)
+     */
+    function _getClaimRange(address user, address token) private view returns (uint256 startDay, uint256 endDay) {
+        uint256 currentDay = getCurrentDay();
 
-            if (startDay > endDay) return (0, endDay); // Nothing to claim
+        // Cannot claim for the current day, only completed days whose votes are final
+        bool settled;
+        (settled, endDay) = _getLastSettledDay(currentDay);
+        if (!settled) return (1, 0);
 
-            totalHuntToClaim = 0;
+        // Start from the day after the last claim (0 if never claimed), within the expiry window
+        uint256 expiryFloorDay = _getExpiryFloorDay(currentDay);
+        uint256 nextClaimDay = userTokenNextClaimDay[user][token];
+        startDay = nextClaimDay > expiryFloorDay ? nextClaimDay : expiryFloorDay;
+    }
 
-            // Accumulate rewards from all eligible days (max 30 iterations)
-            // Gas cost: First SLOAD per slot costs 2100 gas, subsequent accesses cost 100 gas
-            // Worst case: 30 days × 3 SLOADs = ~69,000 gas for loop (safe on Base chain)
-            for (uint256 day = startDay; day <= endDay; ++day) {
-                uint256 userVotes = dailyUserTokenVotes[day][user][token];
-                if (userVotes == 0) continue;
+    /**
+     * @notice Returns the HUNT a user's votes on a token earn on a given day, whether claimed or not
+     * @param day The day number to query
+     * @param user The user's address
+     * @param token The token's address
+     * @return The user's reward for the day (in Wei), projected for the current day
+     * @dev (userWeight / totalWeight) * voter reward in effect on that day (the reward minus the creator share),
+     * where weights are the raw votes unless the day's reward mode caps or quadratically weights them,
+     * multiplied by the user's streak multiplier when streak multipliers are on
+     */
+    function getUserDailyReward(uint256 day, address user, address token) public view returns (uint256) {
+        uint256 userVotes = dailyUserTokenVotes[day][user][token];
+        if (userVotes == 0 || dailyTokenVoided[day][token]) return 0;
 
-                DailyStats memory dailyStat = dailyStats[day];
-                uint256 totalVotes = dailyStat.totalVotingPointSpent;
-                if (totalVotes == 0) continue;
+        uint256 reward = _getVoterDailyReward(day);
+        (uint32 userTokenVoteCap, bool quadratic) = getRewardMode(day);
+        uint256 multiplierBp = getStreakMultiplier(day, dailyUserVotingPoint[day][user].streak);
+        if (userTokenVoteCap == 0 && !quadratic && multiplierBp == 0) {
+            uint256 totalVotes = dailyStats[day].totalVotingPointSpent;
+            if (totalVotes == 0) return 0;
 
-                // Calculate proportional reward: (userVotes / totalVotes) * dailyReward
-                // Uses CURRENT dailyHuntReward for all days - changes to dailyHuntReward
-                // will retroactively affect unclaimed rewards from past days
-                totalHuntToClaim += (userVotes * dailyHuntReward) / totalVotes;
+            unchecked {
+                // Safe: uint32 votes * reward (uint224) cannot overflow uint256
+                return (userVotes * reward) / totalVotes;
             }
         }
 
-        return (totalHuntToClaim, endDay);
+        uint256 totalWeight = dailyTotalVoteWeight[day];
+        if (totalWeight == 0) return 0;
+
+        return Math.mulDiv(_getVoteWeight(userVotes, userTokenVoteCap, quadratic, multiplierBp), reward, totalWeight);
     }
 
     /**
-     * @notice Returns the deployment day timestamp (UTC midnight)
-     * @return The timestamp used as day 0 reference
+     * @dev Returns the part of a day's reward pool shared by voters, after the creator share
      */
-    function getDeploymentTimestamp() external view returns (uint256) {
-        return DEPLOYMENT_TIMESTAMP;
+    function _getVoterDailyReward(uint256 day) private view returns (uint256 reward) {
+        reward = _dailyHuntRewardHistory.upperLookupRecent(SafeCast.toUint32(day));
+        unchecked {
+            // Safe: creatorShareBp <= MAX_CREATOR_SHARE_BP, so the creator share never exceeds the reward
+            reward -= (reward * getCreatorShareBp(day)) / 10000;
+        }
+    }
+
+    /**
+     * @notice Returns whether an operator can claim rewards for a user and token
+     * @param user The user's address
+     * @param operator The operator's address
+     * @param token The token's address
+     * @return True if the operator is the user, or is approved for this token or for all tokens
+     */
+    function isApprovedOperator(address user, address operator, address token) public view returns (bool) {
+        return
+            operator == user ||
+            operatorApprovals[user][operator][address(0)] ||
+            operatorApprovals[user][operator][token];
     }
-}
 
-// MARK: - Interfaces
+    /**
+     * @notice Returns the tokens that received votes on a given day
+     * @param day The day number to query
+     * @return The token addresses in order of their first vote (tokens whose votes were reallocated away remain)
+     */
+    function getDailyTokens(uint256 day) external view returns (address[] memory) {
+        return _dailyTokens[day].values();
+    }
 
-/**
- * @title IMCV2_Bond
- * @notice Interface for the MCV2_Bond bonding curve contract
- * @dev Minimal interface containing only the functions used by Mintpad
- */
-interface IMCV2_Bond {
-    function mint(
-        address token,
-        uint256 tokensToMint,
-        uint256 maxReserveAmount,
-        address receiver
-    ) external returns (uint256);
+    /**
+     * @notice Returns the tokens a user voted for on a given day
+     * @param day The day number to query
+     * @param user The user's address
+     * @return The token addresses in order of the user's first vote (tokens whose votes were reallocated away remain)
+     */
+    function getUserDailyTokens(uint256 day, address user) external view returns (address[] memory) {
+        return _dailyUserTokens[day][user].values();
+    }
 
-    function tokenBond(
-        address token
-    )
-        external
-        view
-        returns (
-            address creator,
-            uint16 mintRoyalty,
-            uint16 burnRoyalty,
-            uint40 createdAt,
-            address reserveToken,
-            uint256 reserveBalance
-        );
+    /**
+     * @notice Returns a donation preset registered by a token's creator
+     * @param token The child token
+     * @param name The preset name
+     * @return The donation recipients and their basis points (empty if the preset does not exist)
+     */
+    function getDonationPreset(address token, bytes32 name) external view returns (DonationSplit[] memory) {
+        return _donationPresets[token][name];
+    }
+
+    /**
+     * @notice Returns the genesis timestamp (UTC midnight of the deployment day by default)
+     * @return The timestamp used as day 0 reference
+     */
+    function getDeploymentTimestamp() external view returns (uint256) {
+        return DEPLOYMENT_TIMESTAMP;
+    }
 }
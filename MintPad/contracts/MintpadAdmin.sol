@@ -0,0 +1,784 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Checkpoints} from "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MintpadStorage, IVotingPointSource, IMintpadBonusPools} from "./MintpadStorage.sol";
+
+/**
+ * @title IMintpadAdmin
+ * @notice Owner, guardian and infrequent user functions implemented by MintpadAdmin and exposed by Mintpad
+ */
+interface IMintpadAdmin {
+    /**
+     * @notice Adds or updates an authorized signer for voting point activations
+     * @param signerAddress The signer address
+     * @param dailyCap The maximum voting points the signer can issue per day (0 revokes the signer)
+     * @dev Only callable by contract owner
+     */
+    function setSigner(address signerAddress, uint32 dailyCap) external;
+
+    /**
+     * @notice Sets the contract that computes voting points on-chain (see activateVotingPointFromSource)
+     * @param source The voting point source, e.g. MintpadStaking (zero address turns sourced activation off)
+     * @dev Only callable by contract owner. Signed activations keep working either way
+     */
+    function setVotingPointSource(address source) external;
+
+    /**
+     * @notice Registers the MintpadBonusPools contract whose bonuses are paid out with claims
+     * @param pools The bonus pools contract, deployed with this Mintpad's address
+     * @dev Only callable by contract owner, once: sponsors' deposits are bound to the registered contract
+     */
+    function setBonusPools(address pools) external;
+
+    /**
+     * @notice Immediately revokes a signer, e.g. when its key is compromised
+     * @param signerAddress The signer address to revoke
+     * @dev Callable by the contract owner or by the signer itself
+     */
+    function revokeSigner(address signerAddress) external;
+
+    /**
+     * @notice Sets how many distinct signers must co-sign large voting point allocations
+     * @param threshold Activations above this many voting points are considered large
+     * @param requiredSignatures The number of distinct signer signatures required for large activations
+     * @dev Only callable by contract owner
+     */
+    function setLargeAllocationPolicy(uint32 threshold, uint8 requiredSignatures) external;
+
+    /**
+     * @notice Sets the guardian, who can pause any flow but cannot unpause
+     * @param newGuardian The new guardian address (zero address removes the guardian)
+     * @dev Only callable by contract owner
+     */
+    function setGuardian(address newGuardian) external;
+
+    /**
+     * @notice Pauses a single flow
+     * @param pauseSwitch The flow to pause
+     * @dev Callable by the contract owner or the guardian
+     */
+    function pause(MintpadStorage.PauseSwitch pauseSwitch) external;
+
+    /**
+     * @notice Pauses activation, voting and claiming in a single transaction
+     * @dev Callable by the contract owner or the guardian
+     */
+    function pauseAll() external;
+
+    /**
+     * @notice Unpauses a single flow
+     * @param pauseSwitch The flow to unpause
+     * @dev Only callable by contract owner
+     */
+    function unpause(MintpadStorage.PauseSwitch pauseSwitch) external;
+
+    /**
+     * @notice Sets the daily HUNT reward pool amount, starting from the next day
+     * @param newDailyHuntReward The new daily HUNT reward pool (in Wei)
+     * @dev Only callable by contract owner. Days that already started keep the reward that was in effect on
+     * them, so votes already cast are never repriced. If called multiple times on the same day, the last value wins
+     */
+    function setDailyHuntReward(uint256 newDailyHuntReward) external;
+
+    /**
+     * @notice Sets how votes are weighted when splitting the daily reward, starting from the next day
+     * @param userTokenVoteCap Maximum votes per user per token per day that earn rewards (0 = no cap)
+     * @param quadratic Whether each user's votes on a token are weighted by their square root
+     * @dev Only callable by contract owner. Days that already started keep their mode,
+     * and the last value set on a day wins
+     */
+    function setRewardMode(uint32 userTokenVoteCap, bool quadratic) external;
+
+    /**
+     * @notice Sets the reward multiplier for voting on consecutive days, starting from the next day
+     * @param bonusBpPerDay Multiplier added for each consecutive voting day after the first (100 = +1%, 0 = off)
+     * @param maxMultiplierBp Cap on the multiplier (10000 = 1x, at most 50000); ignored when bonusBpPerDay is 0
+     * @dev Only callable by contract owner. A user's votes on a day are weighted by
+     * min(10000 + (streak - 1) * bonusBpPerDay, maxMultiplierBp), where streak counts the consecutive days
+     * up to and including that day on which the user voted. Days that already started keep their multiplier,
+     * and the last value set on a day wins
+     */
+    function setStreakMultiplier(uint16 bonusBpPerDay, uint32 maxMultiplierBp) external;
+
+    /**
+     * @notice Sets the runway threshold (in days of dailyHuntReward) that triggers the LowRunway event
+     * @param newRunwayAlertDays The new threshold in days (0 disables the alert)
+     * @dev Only callable by contract owner
+     */
+    function setRunwayAlertDays(uint256 newRunwayAlertDays) external;
+
+    /**
+     * @notice Emergency function to refund HUNT tokens to the owner
+     * @param amount The amount of HUNT to refund (in Wei)
+     * @dev Only callable by contract owner. Cannot withdraw HUNT still owed to voters (see getOutstandingHunt)
+     */
+    function refundHUNT(uint256 amount) external;
+
+    /**
+     * @notice Sweeps expired, unclaimable HUNT to a treasury address
+     * @param treasury The address to receive the expired HUNT
+     * @param maxDays The maximum number of days to process (bounds gas usage)
+     * @return amount The amount of HUNT swept (in Wei)
+     * @dev Only callable by contract owner. Processes days in [nextSweepDay, toDay) that are older than the 30-day
+     * expiration window. Each day's expired amount is its allocated reward minus what was claimed against it.
+     */
+    function sweepExpiredHunt(address treasury, uint256 maxDays) external returns (uint256 amount);
+
+    /**
+     * @notice Blocks or unblocks voting for a token
+     * @param token The child token address
+     * @param denied Whether the token is denylisted
+     * @dev Only callable by contract owner. Does not affect claims for votes already cast
+     */
+    function setTokenDenied(address token, bool denied) external;
+
+    /**
+     * @notice Adds or removes a token from the allowlist used in allowlistOnly mode
+     * @param token The child token address
+     * @param allowed Whether the token is allowlisted
+     * @dev Only callable by contract owner
+     */
+    function setTokenAllowed(address token, bool allowed) external;
+
+    /**
+     * @notice Turns allowlist-only voting on or off
+     * @param enabled Whether only allowlisted tokens can receive votes
+     * @dev Only callable by contract owner
+     */
+    function setAllowlistOnly(bool enabled) external;
+
+    /**
+     * @notice Voids all of today's votes for a denylisted token
+     * @param token The denylisted child token
+     * @dev Only callable by contract owner. The voided votes earn nothing and are removed from
+     * totalVotingPointSpent, so the day's reward is shared among the remaining votes.
+     * Spent voting points are not returned to voters
+     */
+    function voidTokenVotes(address token) external;
+
+    /**
+     * @notice Sets the share of the daily reward pool paid to bond creators, starting from the next day
+     * @param creatorShareBp Basis points of the daily reward split among the creators of the voted tokens
+     * (100 = 1%, at most 5000, 0 = off)
+     * @dev Only callable by contract owner. Each token's creator earns the share pro rata to the raw votes the
+     * token received, and voters share the rest. Days that already started keep their share,
+     * and the last value set on a day wins
+     */
+    function setCreatorShare(uint16 creatorShareBp) external;
+
+    /**
+     * @notice Turns commit-reveal voting on or off, starting from the next day
+     * @param enabled Whether votes must be committed during the day and revealed on the following day
+     * @dev Only callable by contract owner. On commit-reveal days votes are only cast when revealed
+     * (see commitVotes and revealVotes), and claims for the day open once its reveal window has ended.
+     * Days that already started keep their mode, and the last value set on a day wins
+     */
+    function setCommitRevealMode(bool enabled) external;
+
+    /**
+     * @notice Registers a named donation split that supporters can choose when claiming (see claimWithPreset)
+     * @param token The child token the preset applies to
+     * @param name The preset name (e.g. "team")
+     * @param splits Donation recipients and their basis points (at most 10, summing to at most 10000).
+     * An empty list removes the preset
+     * @dev Only callable by the token's bond creator
+     */
+    function setDonationPreset(address token, bytes32 name, MintpadStorage.DonationSplit[] calldata splits) external;
+
+    /**
+     * @notice Claims a token's unclaimed creator rewards, as HUNT or as the token itself
+     * @param token The child token whose creator rewards to claim
+     * @param mintTokens Whether to mint the token with the HUNT instead of receiving the HUNT
+     * @param minTokensToMint Slippage protection when minting: reverts if fewer tokens would be minted
+     * @return actualHuntSpent The HUNT paid out or spent on minting (in Wei)
+     * @return tokensMinted The tokens minted to the creator (0 when claiming HUNT)
+     * @dev Only callable by the token's bond creator. Covers the unclaimed days within the 30-day
+     * expiration window up to the last day whose votes are final (see MintpadLens.getCreatorDailyReward)
+     */
+    function claimCreatorReward(
+        address token,
+        bool mintTokens,
+        uint256 minTokensToMint
+    ) external returns (uint256 actualHuntSpent, uint256 tokensMinted);
+
+    /**
+     * @notice Approves or revokes an operator to claim rewards on your behalf
+     * @param operator The operator address
+     * @param token The token the approval applies to (address(0) for all tokens)
+     * @param approved True to approve, false to revoke
+     * @dev Minted tokens from operator claims are always sent to the user
+     */
+    function setOperator(address operator, address token, bool approved) external;
+
+    /**
+     * @notice Approves or revokes an operator using a signature from the user
+     * @param user The user granting or revoking the approval
+     * @param operator The operator address
+     * @param token The token the approval applies to (address(0) for all tokens)
+     * @param approved True to approve, false to revoke
+     * @param deadline The timestamp after which the signature is no longer valid
+     * @param signature EIP-712 signature of OperatorApproval(user, operator, token, approved, nonce, deadline)
+     * @dev The user's current nonce (operatorApprovalNonces) is part of the signed message and is consumed on success
+     */
+    function setOperatorBySig(
+        address user,
+        address operator,
+        address token,
+        bool approved,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /**
+     * @notice Adds voting points earned during the day on top of the user's activated voting points
+     * @param user The user whose voting points are topped up
+     * @param votingPoint The amount of voting points to add
+     * @param nonce The user's current top-up nonce (topUpNonces), consumed on success
+     * @param signature EIP-712 signature of VotingPointTopUp(user, day, votingPoint, nonce) from authorized signer(s)
+     * @dev Voting points must be activated first via activateVotingPoint(). Can be relayed by anyone
+     */
+    function topUpVotingPoint(address user, uint32 votingPoint, uint256 nonce, bytes calldata signature) external;
+
+    /**
+     * @notice Commits to today's votes without revealing them, on commit-reveal days
+     * @param commitment keccak256(abi.encode(user, day, tokens, voteAmounts, salt)) of the votes to reveal
+     * @dev Voting points must be activated first. Committing again replaces the previous commitment.
+     * The votes only count once revealed with revealVotes() on the following day
+     */
+    function commitVotes(bytes32 commitment) external;
+
+    /**
+     * @notice Imports daily statistics from Mintpad V1
+     * @param dayList The days to import (must be within the 30-day expiration window and before the cut-over day)
+     * @dev Only callable by contract owner while migration is open. Values are read from V1 storage.
+     * Days that already have activity on this contract cannot be imported.
+     */
+    function migrateDailyStats(uint256[] calldata dayList) external;
+
+    /**
+     * @notice Imports per-user per-token votes from Mintpad V1
+     * @param dayList The vote days (must be within the 30-day expiration window and before the cut-over day)
+     * @param users The voters
+     * @param tokens The tokens voted for
+     * @dev Only callable by contract owner while migration is open. Entries are matched by index and
+     * typically collected from V1 `Voted` events. Values are read from V1 storage and also added to the
+     * day's per-token vote totals and token lists, which V1 does not store.
+     */
+    function migrateUserTokenVotes(
+        uint256[] calldata dayList,
+        address[] calldata users,
+        address[] calldata tokens
+    ) external;
+
+    /**
+     * @notice Imports per-user per-token last claim days from Mintpad V1, converting them to the offset encoding
+     * @param users The claimers
+     * @param tokens The claimed tokens
+     * @dev Only callable by contract owner while migration is open. V1 value 0 is imported as "never claimed":
+     * no V1 user claimed on day 1, so a V1 value of 0 never meant "claimed up to day 0".
+     */
+    function migrateUserTokenLastClaimDays(address[] calldata users, address[] calldata tokens) external;
+
+    /**
+     * @notice Permanently disables importing state from Mintpad V1
+     * @dev Only callable by contract owner while migration is open
+     */
+    function finishMigration() external;
+}
+
+/**
+ * @title MintpadAdmin
+ * @notice Owner, guardian and infrequent user functions of Mintpad
+ * @dev Deployed by the Mintpad constructor and only meant to be delegatecalled by it, so every function
+ * runs against Mintpad's storage and balances. Calling this contract directly only touches its own empty state.
+ */
+contract MintpadAdmin is MintpadStorage, IMintpadAdmin {
+    using SafeERC20 for IERC20;
+    using Checkpoints for Checkpoints.Trace224;
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // MARK: - Constants
+    bytes32 private constant VOTING_POINT_TOP_UP_TYPEHASH =
+        keccak256("VotingPointTopUp(address user,uint256 day,uint32 votingPoint,uint256 nonce)");
+    bytes32 private constant OPERATOR_APPROVAL_TYPEHASH =
+        keccak256(
+            "OperatorApproval(address user,address operator,address token,bool approved,uint256 nonce,uint256 deadline)"
+        );
+    uint256 private immutable MIGRATION_CUTOVER_DAY; // First day recorded on this contract, V1 days are before it
+
+    // MARK: - Constructor
+    /**
+     * @param deploymentTimestamp Must match Mintpad's DEPLOYMENT_TIMESTAMP
+     * @param epochLength Must match Mintpad's EPOCH_LENGTH
+     * @param previousMintpad Must match Mintpad's PREVIOUS_MINTPAD
+     */
+    constructor(
+        uint256 deploymentTimestamp,
+        uint256 epochLength,
+        address previousMintpad
+    ) MintpadStorage(deploymentTimestamp, epochLength, previousMintpad, msg.sender) {
+        // Deployed in Mintpad's constructor, so this is the day Mintpad takes over from V1
+        MIGRATION_CUTOVER_DAY = (block.timestamp - deploymentTimestamp) / epochLength;
+    }
+
+    // MARK: - Modifiers
+    modifier _onlyDuringMigration() {
+        if (!migrationOpen) revert Mintpad__MigrationClosed();
+        _;
+    }
+
+    modifier _onlyOwnerOrGuardian() {
+        if (msg.sender != owner() && msg.sender != guardian) revert OwnableUnauthorizedAccount(msg.sender);
+        _;
+    }
+
+    // MARK: - Admin Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function setSigner(address signerAddress, uint32 dailyCap) external onlyOwner {
+        if (signerAddress == address(0)) revert Mintpad__InvalidParams("zero address");
+        signerDailyCap[signerAddress] = dailyCap;
+        emit SignerUpdated(signerAddress, dailyCap);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setVotingPointSource(address source) external onlyOwner {
+        votingPointSource = IVotingPointSource(source);
+        emit VotingPointSourceUpdated(source);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setBonusPools(address pools) external onlyOwner {
+        if (address(bonusPools) != address(0)) revert Mintpad__InvalidParams("bonusPools already set");
+        if (pools == address(0)) revert Mintpad__InvalidParams("zero address");
+        if (IMintpadBonusPools(pools).MINTPAD() != address(this))
+            revert Mintpad__InvalidParams("bonusPools for another Mintpad");
+
+        bonusPools = IMintpadBonusPools(pools);
+        emit BonusPoolsSet(pools);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function revokeSigner(address signerAddress) external {
+        if (msg.sender != owner() && msg.sender != signerAddress) revert OwnableUnauthorizedAccount(msg.sender);
+        signerDailyCap[signerAddress] = 0;
+        emit SignerUpdated(signerAddress, 0);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setLargeAllocationPolicy(uint32 threshold, uint8 requiredSignatures) external onlyOwner {
+        if (requiredSignatures == 0) revert Mintpad__InvalidParams("requiredSignatures cannot be zero");
+        largeAllocationThreshold = threshold;
+        largeAllocationSignatures = requiredSignatures;
+        emit LargeAllocationPolicyUpdated(threshold, requiredSignatures);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setGuardian(address newGuardian) external onlyOwner {
+        guardian = newGuardian;
+        emit GuardianUpdated(newGuardian);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function pause(PauseSwitch pauseSwitch) external _onlyOwnerOrGuardian {
+        _setPaused(pauseSwitch, true);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function pauseAll() external _onlyOwnerOrGuardian {
+        _setPaused(PauseSwitch.Activation, true);
+        _setPaused(PauseSwitch.Voting, true);
+        _setPaused(PauseSwitch.Claiming, true);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function unpause(PauseSwitch pauseSwitch) external onlyOwner {
+        _setPaused(pauseSwitch, false);
+    }
+
+    function _setPaused(PauseSwitch pauseSwitch, bool isPaused) private {
+        if (paused[pauseSwitch] == isPaused) return;
+        paused[pauseSwitch] = isPaused;
+        emit PauseUpdated(pauseSwitch, isPaused, msg.sender);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setDailyHuntReward(uint256 newDailyHuntReward) external onlyOwner {
+        if (newDailyHuntReward == 0) revert Mintpad__InvalidParams("dailyHuntReward cannot be zero");
+        dailyHuntReward = newDailyHuntReward;
+        _dailyHuntRewardHistory.push(SafeCast.toUint32(getCurrentDay() + 1), SafeCast.toUint224(newDailyHuntReward));
+        emit DailyHuntRewardUpdated(newDailyHuntReward);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setRewardMode(uint32 userTokenVoteCap, bool quadratic) external onlyOwner {
+        uint256 fromDay = getCurrentDay() + 1;
+        _rewardModeHistory.push(
+            SafeCast.toUint32(fromDay),
+            (quadratic ? uint224(1) << 32 : 0) | uint224(userTokenVoteCap)
+        );
+        emit RewardModeUpdated(fromDay, userTokenVoteCap, quadratic);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setStreakMultiplier(uint16 bonusBpPerDay, uint32 maxMultiplierBp) external onlyOwner {
+        if (bonusBpPerDay != 0 && (maxMultiplierBp <= 10000 || maxMultiplierBp > MAX_STREAK_MULTIPLIER_BP)) {
+            revert Mintpad__InvalidParams("invalid maxMultiplierBp");
+        }
+
+        uint256 fromDay = getCurrentDay() + 1;
+        _streakMultiplierHistory.push(
+            SafeCast.toUint32(fromDay),
+            (uint224(bonusBpPerDay) << 32) | uint224(maxMultiplierBp)
+        );
+        emit StreakMultiplierUpdated(fromDay, bonusBpPerDay, maxMultiplierBp);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setRunwayAlertDays(uint256 newRunwayAlertDays) external onlyOwner {
+        runwayAlertDays = newRunwayAlertDays;
+        emit RunwayAlertDaysUpdated(newRunwayAlertDays);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function refundHUNT(uint256 amount) external onlyOwner {
+        if (amount == 0) revert Mintpad__InvalidParams("amount cannot be zero");
+        if (amount > HUNT.balanceOf(address(this))) revert Mintpad__InvalidParams("insufficient balance");
+        if (amount > getAvailableHunt()) revert Mintpad__InvalidParams("amount exceeds unobligated balance");
+
+        HUNT.safeTransfer(msg.sender, amount);
+        _checkRunway(amount);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function sweepExpiredHunt(address treasury, uint256 maxDays) external onlyOwner returns (uint256 amount) {
+        if (treasury == address(0)) revert Mintpad__InvalidParams("zero address");
+        if (maxDays == 0) revert Mintpad__InvalidParams("maxDays cannot be zero");
+
+        uint256 fromDay = nextSweepDay;
+        uint256 toDay = _getExpiryFloorDay(getCurrentDay()); // exclusive
+        if (toDay > fromDay + maxDays) toDay = fromDay + maxDays;
+        if (fromDay >= toDay) revert Mintpad__InvalidParams("nothing expired");
+
+        for (uint256 day = fromDay; day < toDay; ++day) {
+            amount += _getUnclaimedHunt(day);
+        }
+        nextSweepDay = toDay;
+
+        if (amount > 0) {
+            HUNT.safeTransfer(treasury, amount);
+            _checkRunway(amount);
+        }
+
+        emit ExpiredHuntSwept(treasury, fromDay, toDay, amount);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setTokenDenied(address token, bool denied) external onlyOwner {
+        tokenDenied[token] = denied;
+        emit TokenDenylistUpdated(token, denied);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setTokenAllowed(address token, bool allowed) external onlyOwner {
+        tokenAllowed[token] = allowed;
+        emit TokenAllowlistUpdated(token, allowed);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setAllowlistOnly(bool enabled) external onlyOwner {
+        allowlistOnly = enabled;
+        emit AllowlistOnlyUpdated(enabled);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function voidTokenVotes(address token) external onlyOwner {
+        if (!tokenDenied[token]) revert Mintpad__InvalidParams("token not denied");
+
+        uint256 day = getCurrentDay();
+        if (dailyTokenVoided[day][token]) revert Mintpad__InvalidParams("already voided");
+        dailyTokenVoided[day][token] = true;
+
+        uint32 votes = dailyTokenVotes[day][token];
+        unchecked {
+            // Safe: the token's votes and weight are part of the day's totals
+            dailyStats[day].totalVotingPointSpent -= votes;
+            dailyTotalVoteWeight[day] -= dailyTokenVoteWeight[day][token];
+        }
+
+        emit TokenVotesVoided(day, token, votes);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setCreatorShare(uint16 creatorShareBp) external onlyOwner {
+        if (creatorShareBp > MAX_CREATOR_SHARE_BP) revert Mintpad__InvalidParams("creatorShareBp exceeds max");
+
+        uint256 fromDay = getCurrentDay() + 1;
+        _creatorShareHistory.push(SafeCast.toUint32(fromDay), creatorShareBp);
+        emit CreatorShareUpdated(fromDay, creatorShareBp);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setCommitRevealMode(bool enabled) external onlyOwner {
+        uint256 fromDay = getCurrentDay() + 1;
+        _commitRevealHistory.push(SafeCast.toUint32(fromDay), enabled ? 1 : 0);
+        emit CommitRevealModeUpdated(fromDay, enabled);
+    }
+
+    // MARK: - Creator Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function setDonationPreset(address token, bytes32 name, DonationSplit[] calldata splits) external {
+        (address creator, , , , , ) = BOND.tokenBond(token);
+        if (msg.sender != creator) revert Mintpad__NotCreator();
+        _validateDonationSplits(splits);
+
+        DonationSplit[] storage preset = _donationPresets[token][name];
+        delete _donationPresets[token][name];
+        for (uint256 i = 0; i < splits.length; ++i) {
+            preset.push(splits[i]);
+        }
+
+        emit DonationPresetUpdated(token, name, splits);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function claimCreatorReward(
+        address token,
+        bool mintTokens,
+        uint256 minTokensToMint
+    ) external returns (uint256 actualHuntSpent, uint256 tokensMinted) {
+        if (paused[PauseSwitch.Claiming]) revert Mintpad__Paused(PauseSwitch.Claiming);
+        (address creator, , , , , ) = BOND.tokenBond(token);
+        if (msg.sender != creator) revert Mintpad__NotCreator();
+
+        // Cannot claim for the current day, only completed days whose votes are final
+        uint256 currentDay = getCurrentDay();
+        (bool settled, uint256 endDay) = _getLastSettledDay(currentDay);
+        if (!settled) revert Mintpad__NothingToClaim();
+
+        uint256 startDay = creatorTokenNextClaimDay[token];
+        uint256 expiryFloorDay = _getExpiryFloorDay(currentDay);
+        if (startDay < expiryFloorDay) startDay = expiryFloorDay;
+
+        // Record claims against each vote day, as voter claims do
+        uint256 totalHuntToClaim;
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            uint256 dayReward = _getCreatorDailyReward(day, token);
+            if (dayReward == 0) continue;
+
+            dailyHuntClaimed[day] += dayReward;
+            totalHuntToClaim += dayReward;
+        }
+        creatorTokenNextClaimDay[token] = endDay + 1;
+        if (totalHuntToClaim == 0) revert Mintpad__NothingToClaim();
+
+        if (mintTokens) {
+            uint256 huntBalanceBefore = HUNT.balanceOf(address(this));
+            tokensMinted = BOND_PERIPHERY.mintWithReserveAmount(
+                token,
+                totalHuntToClaim,
+                minTokensToMint,
+                address(this)
+            );
+            actualHuntSpent = huntBalanceBefore - HUNT.balanceOf(address(this));
+            IERC20(token).safeTransfer(creator, tokensMinted);
+        } else {
+            actualHuntSpent = totalHuntToClaim;
+            HUNT.safeTransfer(creator, totalHuntToClaim);
+        }
+        _recordClaims(1, actualHuntSpent);
+
+        emit CreatorRewardClaimed(token, creator, endDay, actualHuntSpent, tokensMinted);
+    }
+
+    /**
+     * @dev Returns the HUNT a token's bond creator earns on a day: (tokenVotes / totalVotes) * the creator
+     * share of the reward in effect on that day. Voided tokens earn nothing
+     */
+    function _getCreatorDailyReward(uint256 day, address token) private view returns (uint256) {
+        uint256 totalVotes = dailyStats[day].totalVotingPointSpent;
+        if (totalVotes == 0 || dailyTokenVoided[day][token]) return 0;
+
+        uint256 creatorReward = (_dailyHuntRewardHistory.upperLookupRecent(SafeCast.toUint32(day)) *
+            getCreatorShareBp(day)) / 10000;
+        unchecked {
+            // Safe: uint32 votes * creatorReward (below uint224) cannot overflow uint256
+            return (dailyTokenVotes[day][token] * creatorReward) / totalVotes;
+        }
+    }
+
+    // MARK: - Operator Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function setOperator(address operator, address token, bool approved) external {
+        _setOperator(msg.sender, operator, token, approved);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function setOperatorBySig(
+        address user,
+        address operator,
+        address token,
+        bool approved,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) revert Mintpad__SignatureExpired();
+
+        // Verify EIP-712 signature
+        uint256 nonce = operatorApprovalNonces[user];
+        bytes32 structHash = keccak256(
+            abi.encode(OPERATOR_APPROVAL_TYPEHASH, user, operator, token, approved, nonce, deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
+        if (ECDSA.recover(digest, signature) != user) revert Mintpad__InvalidSignature();
+
+        // Consume nonce to prevent replay attacks
+        unchecked {
+            operatorApprovalNonces[user] = nonce + 1;
+        }
+
+        _setOperator(user, operator, token, approved);
+    }
+
+    function _setOperator(address user, address operator, address token, bool approved) private {
+        if (operator == address(0)) revert Mintpad__InvalidParams("zero address");
+
+        operatorApprovals[user][operator][token] = approved;
+        emit OperatorApprovalUpdated(user, operator, token, approved);
+    }
+
+    // MARK: - Voting Preparation Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function topUpVotingPoint(address user, uint32 votingPoint, uint256 nonce, bytes calldata signature) external {
+        if (paused[PauseSwitch.Activation]) revert Mintpad__Paused(PauseSwitch.Activation);
+        if (votingPoint == 0) revert Mintpad__InvalidParams("votingPoint cannot be zero");
+        if (nonce != topUpNonces[user]) revert Mintpad__InvalidParams("nonce");
+
+        uint256 day = getCurrentDay();
+        VotingPoint storage userPoints = dailyUserVotingPoint[day][user];
+        if (userPoints.activated == 0) revert Mintpad__NotActivated();
+
+        // Co-signing policy applies to the user's total for the day, so it can't be bypassed with small top-ups
+        uint32 activatedTotal = userPoints.activated + votingPoint;
+        bytes32 structHash = keccak256(abi.encode(VOTING_POINT_TOP_UP_TYPEHASH, user, day, votingPoint, nonce));
+        _verifyVotingPointSignatures(structHash, day, votingPoint, activatedTotal, signature);
+
+        unchecked {
+            topUpNonces[user] = nonce + 1;
+
+            // Safe: activatedTotal did not overflow, and left <= activated
+            userPoints.activated = activatedTotal;
+            userPoints.left += votingPoint;
+            dailyStats[day].totalVotingPointGiven += votingPoint;
+        }
+
+        emit VotingPointToppedUp(day, user, votingPoint, nonce);
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function commitVotes(bytes32 commitment) external {
+        if (paused[PauseSwitch.Voting]) revert Mintpad__Paused(PauseSwitch.Voting);
+
+        uint256 day = getCurrentDay();
+        if (!isCommitRevealDay(day)) revert Mintpad__InvalidParams("not a commit-reveal day");
+        if (dailyUserVotingPoint[day][msg.sender].activated == 0) revert Mintpad__NotActivated();
+
+        dailyVoteCommitments[day][msg.sender] = commitment;
+        emit VotesCommitted(day, msg.sender, commitment);
+    }
+
+    // MARK: - Migration Functions
+
+    /// @inheritdoc IMintpadAdmin
+    function migrateDailyStats(uint256[] calldata dayList) external onlyOwner _onlyDuringMigration {
+        uint256 expiryFloorDay = _getExpiryFloorDay(getCurrentDay());
+
+        for (uint256 i = 0; i < dayList.length; ++i) {
+            uint256 day = dayList[i];
+            if (day < expiryFloorDay) revert Mintpad__InvalidParams("day expired");
+            if (day >= MIGRATION_CUTOVER_DAY) revert Mintpad__InvalidParams("not a V1 day");
+
+            DailyStats memory stats = dailyStats[day];
+            if (stats.totalVotingPointGiven != 0 || stats.votingCount != 0 || stats.claimCount != 0) {
+                revert Mintpad__InvalidParams("already migrated");
+            }
+
+            (
+                uint32 totalVotingPointGiven,
+                uint32 totalVotingPointSpent,
+                uint32 votingCount,
+                uint32 claimCount,
+                uint88 totalHuntClaimed
+            ) = PREVIOUS_MINTPAD.dailyStats(day);
+            dailyStats[day] = DailyStats({
+                totalVotingPointGiven: totalVotingPointGiven,
+                totalVotingPointSpent: totalVotingPointSpent,
+                votingCount: votingCount,
+                claimCount: claimCount,
+                totalHuntClaimed: totalHuntClaimed
+            });
+        }
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function migrateUserTokenVotes(
+        uint256[] calldata dayList,
+        address[] calldata users,
+        address[] calldata tokens
+    ) external onlyOwner _onlyDuringMigration {
+        if (dayList.length != users.length || dayList.length != tokens.length) revert Mintpad__InvalidParams("length");
+        uint256 expiryFloorDay = _getExpiryFloorDay(getCurrentDay());
+
+        for (uint256 i = 0; i < dayList.length; ++i) {
+            uint256 day = dayList[i];
+            address user = users[i];
+            address token = tokens[i];
+            if (day < expiryFloorDay) revert Mintpad__InvalidParams("day expired");
+            if (day >= MIGRATION_CUTOVER_DAY) revert Mintpad__InvalidParams("not a V1 day");
+            if (dailyUserTokenVotes[day][user][token] != 0) revert Mintpad__InvalidParams("already migrated");
+
+            uint32 votes = PREVIOUS_MINTPAD.dailyUserTokenVotes(day, user, token);
+            if (votes == 0) continue;
+
+            dailyUserTokenVotes[day][user][token] = votes;
+            // Each entry is imported once, so the totals match the sum of the imported votes
+            dailyTokenVotes[day][token] += votes;
+            _dailyTokens[day].add(token);
+            _dailyUserTokens[day][user].add(token);
+        }
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function migrateUserTokenLastClaimDays(
+        address[] calldata users,
+        address[] calldata tokens
+    ) external onlyOwner _onlyDuringMigration {
+        if (users.length != tokens.length) revert Mintpad__InvalidParams("length");
+
+        for (uint256 i = 0; i < users.length; ++i) {
+            uint256 lastClaimedDay = PREVIOUS_MINTPAD.userTokenLastClaimDay(users[i], tokens[i]);
+            if (lastClaimedDay == 0) continue;
+
+            uint256 nextClaimDay = lastClaimedDay + 1;
+            // Never move a claim pointer backwards (e.g. if the user already claimed on this contract)
+            if (nextClaimDay > userTokenNextClaimDay[users[i]][tokens[i]]) {
+                userTokenNextClaimDay[users[i]][tokens[i]] = nextClaimDay;
+            }
+        }
+    }
+
+    /// @inheritdoc IMintpadAdmin
+    function finishMigration() external onlyOwner _onlyDuringMigration {
+        migrationOpen = false;
+        emit MigrationFinished();
+    }
+}
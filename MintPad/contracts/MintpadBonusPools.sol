@@ -0,0 +1,278 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/**
+ * @title MintpadBonusPools
+ * @notice Sponsored HUNT pools that pay a child token's Mintpad voters on top of the base daily reward
+ * @dev Deployed for a single Mintpad, whose owner registers it with setBonusPools. Creators or sponsors deposit
+ * HUNT for a range of days; each day's emission is shared by the token's voters pro rata to their votes and paid
+ * out through Mintpad's claim flow, which calls claimBonus() for the same days it settles. Deposits are held here,
+ * separately from Mintpad's reward balance, and unclaimed HUNT is refunded to the sponsor once every day of the
+ * pool has expired. Any number of pools can fund the same token; their emissions add up per day, so no deposit
+ * can keep another sponsor from opening a pool.
+ */
+contract MintpadBonusPools {
+    using SafeERC20 for IERC20;
+
+    // MARK: - Errors
+    error MintpadBonusPools__InvalidParams(string param);
+    error MintpadBonusPools__NotSponsor();
+    error MintpadBonusPools__NotMintpad();
+
+    // MARK: - Structs
+    struct BonusPool {
+        address sponsor; // Depositor, refunded the unclaimed HUNT on close (zero address = no pool)
+        uint32 startDay;
+        uint32 endDay; // Inclusive
+        address token; // Child token whose voters are rewarded
+        uint128 dailyEmission; // HUNT (in Wei) added to the token's daily emission on each day of the pool
+    }
+
+    // MARK: - Constants
+    IERC20 private constant HUNT = IERC20(0x37f0c2915CeCC7e977183B8543Fc0864d03E064C);
+    IMCV2_Bond public constant BOND = IMCV2_Bond(0xc5a076cad94176c2996B32d8466Be1cE757FAa27);
+    uint256 public constant MAX_POOL_DAYS = 90;
+    IMintpad public immutable MINTPAD;
+
+    // MARK: - State Variables
+    /// @notice Maps pool id => bonus pool (ids start at 1)
+    mapping(uint256 => BonusPool) public bonusPools;
+
+    /// @notice Number of pools ever opened, which is also the id of the latest pool
+    uint256 public poolCount;
+
+    /// @notice Maps token => day => HUNT (in Wei) shared by the token's voters on that day, summed over its pools
+    mapping(address => mapping(uint256 => uint256)) public dailyBonusEmission;
+
+    /// @notice Maps token => day => bonus HUNT (in Wei) paid out to the token's voters for that day
+    mapping(address => mapping(uint256 => uint256)) public dailyBonusClaimed;
+
+    /// @notice Maps token => the last day covered by any of its pools
+    mapping(address => uint256) public lastBonusDay;
+
+    // MARK: - Events
+    event BonusPoolDeposited(
+        uint256 indexed poolId,
+        address indexed token,
+        address indexed sponsor,
+        uint256 dailyEmission,
+        uint256 startDay,
+        uint256 endDay
+    );
+    event BonusPoolClosed(uint256 indexed poolId, address indexed token, address indexed sponsor, uint256 refund);
+    event BonusClaimed(address indexed user, address indexed token, uint256 amount);
+
+    // MARK: - Constructor
+    /**
+     * @param mintpad The Mintpad contract whose votes the pools reward
+     */
+    constructor(address mintpad) {
+        if (mintpad == address(0)) revert MintpadBonusPools__InvalidParams("zero address");
+        MINTPAD = IMintpad(mintpad);
+    }
+
+    // MARK: - Write Functions
+
+    /**
+     * @notice Opens a bonus pool that pays a token's voters `dailyEmission` HUNT per day on top of the base reward
+     * @param token The child token whose voters are rewarded
+     * @param dailyEmission HUNT (in Wei) shared by the token's voters pro rata to their votes on each day
+     * @param startDay The first day of the pool (the current Mintpad day or later)
+     * @param endDay The last day of the pool (inclusive, at most MAX_POOL_DAYS days in total)
+     * @return poolId The id of the new pool
+     * @dev Pulls dailyEmission * (endDay - startDay + 1) HUNT from the caller, who becomes the pool's sponsor.
+     * Pools for the same token stack: their emissions are added together on the days they share
+     */
+    function deposit(
+        address token,
+        uint256 dailyEmission,
+        uint256 startDay,
+        uint256 endDay
+    ) external returns (uint256 poolId) {
+        (, , , , address reserveToken, ) = BOND.tokenBond(token);
+        if (reserveToken != address(HUNT)) revert MintpadBonusPools__InvalidParams("not HUNT child token");
+        if (MINTPAD.tokenDenied(token)) revert MintpadBonusPools__InvalidParams("token denied");
+        if (dailyEmission == 0) revert MintpadBonusPools__InvalidParams("dailyEmission cannot be zero");
+        if (startDay < MINTPAD.getCurrentDay()) revert MintpadBonusPools__InvalidParams("startDay in the past");
+        if (endDay < startDay) revert MintpadBonusPools__InvalidParams("endDay before startDay");
+        if (endDay - startDay >= MAX_POOL_DAYS) revert MintpadBonusPools__InvalidParams("pool too long");
+
+        poolId = ++poolCount;
+        bonusPools[poolId] = BonusPool({
+            sponsor: msg.sender,
+            startDay: uint32(startDay), // Safe: startDay <= endDay, which fits in uint32
+            endDay: SafeCast.toUint32(endDay),
+            token: token,
+            dailyEmission: SafeCast.toUint128(dailyEmission)
+        });
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            dailyBonusEmission[token][day] += dailyEmission;
+        }
+        if (endDay > lastBonusDay[token]) lastBonusDay[token] = endDay;
+
+        HUNT.safeTransferFrom(msg.sender, address(this), dailyEmission * (endDay - startDay + 1));
+
+        emit BonusPoolDeposited(poolId, token, msg.sender, dailyEmission, startDay, endDay);
+    }
+
+    /**
+     * @notice Closes a bonus pool and refunds the HUNT its token's voters did not claim to the sponsor
+     * @param poolId The id of the pool to close
+     * @return refund The HUNT returned to the sponsor (in Wei)
+     * @dev Only callable by the sponsor, once every day of the pool has expired (VOTE_EXPIRATION_DAYS after endDay).
+     * Each day's unclaimed HUNT is shared by the pools covering it pro rata to their emissions, rounded down
+     */
+    function close(uint256 poolId) external returns (uint256 refund) {
+        BonusPool memory pool = bonusPools[poolId];
+        if (msg.sender != pool.sponsor) revert MintpadBonusPools__NotSponsor();
+        if (MINTPAD.getCurrentDay() <= pool.endDay + MINTPAD.VOTE_EXPIRATION_DAYS()) {
+            revert MintpadBonusPools__InvalidParams("pool not expired");
+        }
+
+        for (uint256 day = pool.startDay; day <= pool.endDay; ++day) {
+            uint256 emission = dailyBonusEmission[pool.token][day];
+            // Claims for a day never exceed its emission, which includes this pool's
+            refund += (pool.dailyEmission * (emission - dailyBonusClaimed[pool.token][day])) / emission;
+        }
+        delete bonusPools[poolId];
+
+        if (refund > 0) HUNT.safeTransfer(msg.sender, refund);
+
+        emit BonusPoolClosed(poolId, pool.token, msg.sender, refund);
+    }
+
+    /**
+     * @notice Pays a user's bonus for a token over a range of days to Mintpad, which spends it with the claim
+     * @param user The claiming user
+     * @param token The child token being claimed
+     * @param startDay The first day being claimed
+     * @param endDay The last day being claimed (inclusive)
+     * @return bonusHunt The HUNT transferred to Mintpad (in Wei)
+     * @dev Only callable by Mintpad, which marks the days as claimed so they are never passed twice
+     */
+    function claimBonus(
+        address user,
+        address token,
+        uint256 startDay,
+        uint256 endDay
+    ) external returns (uint256 bonusHunt) {
+        if (msg.sender != address(MINTPAD)) revert MintpadBonusPools__NotMintpad();
+
+        if (endDay > lastBonusDay[token]) endDay = lastBonusDay[token];
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            uint256 dailyBonus = _getDailyBonus(dailyBonusEmission[token][day], day, user, token);
+            if (dailyBonus == 0) continue;
+
+            // Each day pays out at most its emission, so claims never exceed the deposits
+            dailyBonusClaimed[token][day] += dailyBonus;
+            bonusHunt += dailyBonus;
+        }
+        if (bonusHunt == 0) return 0;
+
+        HUNT.safeTransfer(msg.sender, bonusHunt);
+
+        emit BonusClaimed(user, token, bonusHunt);
+    }
+
+    // MARK: - View Functions
+
+    /**
+     * @notice Returns the bonus a user's votes on a token earn over a range of days, whether claimed or not
+     * @param user The user's address
+     * @param token The token's address
+     * @param startDay The first day to include
+     * @param endDay The last day to include (inclusive)
+     * @return bonusHunt The total bonus (in Wei); days not covered by any of the token's pools earn nothing
+     */
+    function getBonusHunt(
+        address user,
+        address token,
+        uint256 startDay,
+        uint256 endDay
+    ) external view returns (uint256 bonusHunt) {
+        // No pool covers the token after its last bonus day
+        if (endDay > lastBonusDay[token]) endDay = lastBonusDay[token];
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            bonusHunt += _getDailyBonus(dailyBonusEmission[token][day], day, user, token);
+        }
+    }
+
+    /**
+     * @notice Returns the bonus a user's votes on a token earn on a given day, whether claimed or not
+     * @param day The day number to query
+     * @param user The user's address
+     * @param token The token's address
+     * @return The user's share of the token's dailyBonusEmission (in Wei), projected for the current day
+     * @dev (userVotes / tokenVotes) * dailyBonusEmission. Paid on top of Mintpad's getUserDailyReward();
+     * voided tokens earn nothing
+     */
+    function getUserDailyBonus(uint256 day, address user, address token) external view returns (uint256) {
+        return _getDailyBonus(dailyBonusEmission[token][day], day, user, token);
+    }
+
+    // MARK: - Internal Functions
+
+    /**
+     * @dev Returns a user's share of a token's bonus emission on a day
+     */
+    function _getDailyBonus(
+        uint256 dailyEmission,
+        uint256 day,
+        address user,
+        address token
+    ) private view returns (uint256) {
+        if (dailyEmission == 0) return 0;
+
+        uint256 userVotes = MINTPAD.dailyUserTokenVotes(day, user, token);
+        if (userVotes == 0 || MINTPAD.dailyTokenVoided(day, token)) return 0;
+
+        // tokenVotes >= userVotes > 0
+        return (userVotes * dailyEmission) / MINTPAD.dailyTokenVotes(day, token);
+    }
+}
+
+// MARK: - Interfaces
+
+/**
+ * @title IMintpad
+ * @notice Interface for the Mintpad contract
+ * @dev Minimal interface containing only the functions used by MintpadBonusPools
+ */
+interface IMintpad {
+    function VOTE_EXPIRATION_DAYS() external view returns (uint256);
+
+    function getCurrentDay() external view returns (uint256);
+
+    function tokenDenied(address token) external view returns (bool);
+
+    function dailyUserTokenVotes(uint256 day, address user, address token) external view returns (uint32);
+
+    function dailyTokenVotes(uint256 day, address token) external view returns (uint32);
+
+    function dailyTokenVoided(uint256 day, address token) external view returns (bool);
+}
+
+/**
+ * @title IMCV2_Bond
+ * @notice Interface for the MCV2_Bond bonding curve contract
+ * @dev Minimal interface containing only the functions used by MintpadBonusPools
+ */
+interface IMCV2_Bond {
+    function tokenBond(
+        address token
+    )
+        external
+        view
+        returns (
+            address creator,
+            uint16 mintRoyalty,
+            uint16 burnRoyalty,
+            uint40 createdAt,
+            address reserveToken,
+            uint256 reserveBalance
+        );
+}
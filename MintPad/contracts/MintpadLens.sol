@@ -0,0 +1,380 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title MintpadLens
+ * @notice Read-only aggregate views over Mintpad state for frontends
+ * @dev Views here iterate and sort in memory, so they are meant for off-chain calls only
+ */
+contract MintpadLens {
+    // MARK: - Errors
+    error MintpadLens__InvalidParams(string param);
+
+    // MARK: - Constants
+    IMintpad public immutable MINTPAD;
+
+    /// @dev A token's standing on a day's leaderboard
+    struct TokenRanking {
+        address token;
+        uint32 votes; // Total voting points spent on the token for the day
+        uint256 projectedHunt; // The token's share of the day's reward pool (in Wei), final once the day ends
+    }
+
+    /// @dev A user's votes on a token on a single day
+    struct VoteRecord {
+        uint256 day;
+        address token;
+        uint32 votes; // Voting points the user spent on the token
+        uint32 tokenVotes; // Total voting points spent on the token by all users
+        uint256 projectedHunt; // The user's reward for these votes (in Wei), final once the day ends
+        bool claimed; // Whether the user already claimed the reward
+    }
+
+    // MARK: - Constructor
+    /**
+     * @param mintpad The Mintpad contract to read from
+     */
+    constructor(address mintpad) {
+        if (mintpad == address(0)) revert MintpadLens__InvalidParams("zero address");
+        MINTPAD = IMintpad(mintpad);
+    }
+
+    // MARK: - View Functions
+
+    /**
+     * @notice Returns a page of the tokens that received votes on a day, sorted by votes (highest first)
+     * @param day The day number to query
+     * @param offset Number of top-ranked tokens to skip
+     * @param limit Maximum number of tokens to return
+     * @return rankings The tokens at ranks [offset, offset + limit)
+     * @return tokenCount Number of ranked tokens on the day (voided and denylisted tokens are not ranked)
+     * @dev Ties keep the order in which tokens received their first vote. Only the top offset + limit tokens
+     * are kept sorted, so the cost grows with the page end rather than with the square of the token count
+     */
+    function getDailyLeaderboard(
+        uint256 day,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (TokenRanking[] memory rankings, uint256 tokenCount) {
+        if (limit == 0) revert MintpadLens__InvalidParams("limit cannot be zero");
+
+        address[] memory tokens = MINTPAD.getDailyTokens(day);
+        uint256 pageEnd = tokens.length;
+        if (limit < pageEnd && offset < pageEnd - limit) pageEnd = offset + limit;
+
+        address[] memory topTokens;
+        uint32[] memory topVotes;
+        (topTokens, topVotes, tokenCount) = _rankByVotes(day, tokens, pageEnd);
+
+        uint256 ranked = tokenCount < pageEnd ? tokenCount : pageEnd;
+        if (offset >= ranked) return (rankings, tokenCount);
+
+        rankings = new TokenRanking[](ranked - offset);
+        for (uint256 i = 0; i < rankings.length; ++i) {
+            address token = topTokens[offset + i];
+            rankings[i] = TokenRanking({
+                token: token,
+                votes: topVotes[offset + i],
+                projectedHunt: getTokenDailyReward(day, token)
+            });
+        }
+    }
+
+    /**
+     * @notice Returns the HUNT that all votes on a token earn on a given day
+     * @param day The day number to query
+     * @param token The token's address
+     * @return The token's share of the day's voter reward (in Wei), projected for the current day
+     * @dev Uses the same vote weighting as Mintpad's claims and excludes the creator share (see
+     * getCreatorDailyReward). Voided tokens earn nothing
+     */
+    function getTokenDailyReward(uint256 day, address token) public view returns (uint256) {
+        if (MINTPAD.dailyTokenVoided(day, token)) return 0;
+
+        uint256 reward = MINTPAD.getDailyHuntReward(day);
+        reward -= (reward * MINTPAD.getCreatorShareBp(day)) / 10000;
+
+        (uint32 userTokenVoteCap, bool quadratic) = MINTPAD.getRewardMode(day);
+        (uint16 bonusBpPerDay, ) = MINTPAD.getStreakMultiplierConfig(day);
+        if (userTokenVoteCap == 0 && !quadratic && bonusBpPerDay == 0) {
+            (, uint32 totalVotes, , , ) = MINTPAD.dailyStats(day);
+            return totalVotes == 0 ? 0 : (MINTPAD.dailyTokenVotes(day, token) * reward) / totalVotes;
+        }
+
+        uint256 totalWeight = MINTPAD.dailyTotalVoteWeight(day);
+        return totalWeight == 0 ? 0 : Math.mulDiv(MINTPAD.dailyTokenVoteWeight(day, token), reward, totalWeight);
+    }
+
+    /**
+     * @notice Returns a user's votes per token for each day in a range, oldest day first
+     * @param user The user's address
+     * @param fromDay The first day to include
+     * @param toDay The last day to include
+     * @return records One entry per day and token the user voted for (votes are 0 if all were reallocated away)
+     * @dev The range is clamped to days whose rewards have not expired yet, up to the current day
+     */
+    function getUserVoteHistory(
+        address user,
+        uint256 fromDay,
+        uint256 toDay
+    ) external view returns (VoteRecord[] memory records) {
+        if (fromDay > toDay) revert MintpadLens__InvalidParams("fromDay after toDay");
+
+        uint256 currentDay = MINTPAD.getCurrentDay();
+        uint256 expirationDays = MINTPAD.VOTE_EXPIRATION_DAYS();
+        if (currentDay > expirationDays && fromDay < currentDay - expirationDays) {
+            fromDay = currentDay - expirationDays;
+        }
+        if (toDay > currentDay) toDay = currentDay;
+        if (fromDay > toDay) return records;
+
+        address[][] memory dailyTokens = new address[][](toDay - fromDay + 1);
+        uint256 recordCount = 0;
+        for (uint256 i = 0; i < dailyTokens.length; ++i) {
+            dailyTokens[i] = MINTPAD.getUserDailyTokens(fromDay + i, user);
+            recordCount += dailyTokens[i].length;
+        }
+
+        records = new VoteRecord[](recordCount);
+        uint256 index = 0;
+        for (uint256 i = 0; i < dailyTokens.length; ++i) {
+            uint256 day = fromDay + i;
+            for (uint256 j = 0; j < dailyTokens[i].length; ++j) {
+                records[index++] = _getVoteRecord(user, day, dailyTokens[i][j]);
+            }
+        }
+    }
+
+    /**
+     * @notice Returns the last day a user claimed rewards for a token
+     * @param user The user's address
+     * @param token The token's address
+     * @return hasClaimed Whether the user has ever claimed for this token
+     * @return lastClaimedDay The last day included in the user's previous claim (0 if never claimed)
+     */
+    function getLastClaimedDay(
+        address user,
+        address token
+    ) external view returns (bool hasClaimed, uint256 lastClaimedDay) {
+        uint256 nextClaimDay = MINTPAD.userTokenNextClaimDay(user, token);
+        if (nextClaimDay == 0) return (false, 0);
+        return (true, nextClaimDay - 1);
+    }
+
+    /**
+     * @notice Returns a user's current voting streak and the multiplier their votes earn today
+     * @param user The user's address
+     * @return streak Consecutive days the user voted up to yesterday or today (0 if the streak is broken)
+     * @return multiplierBp The streak multiplier for the user's votes today (10000 = 1x, also when streaks are off)
+     * @dev A user who has not voted yet today earns the multiplier of streak + 1 by voting
+     */
+    function getVoteStreak(address user) external view returns (uint256 streak, uint256 multiplierBp) {
+        uint256 currentDay = MINTPAD.getCurrentDay();
+        (uint32 lastDay, uint32 length) = MINTPAD.userVoteStreaks(user);
+        if (length != 0 && lastDay + 1 >= currentDay) streak = length;
+
+        uint256 todayStreak = length != 0 && lastDay == currentDay ? streak : streak + 1;
+        multiplierBp = MINTPAD.getStreakMultiplier(currentDay, todayStreak);
+        if (multiplierBp == 0) multiplierBp = 10000;
+    }
+
+    /**
+     * @notice Returns the HUNT a token's bond creator earns on a given day, whether claimed or not
+     * @param day The day number to query
+     * @param token The token's address
+     * @return The creator's reward for the day (in Wei), projected for the current day
+     * @dev (tokenVotes / totalVotes) * the creator share of the reward in effect on that day, matching
+     * Mintpad's claimCreatorReward. Voided tokens earn nothing
+     */
+    function getCreatorDailyReward(uint256 day, address token) public view returns (uint256) {
+        (, uint32 totalVotes, , , ) = MINTPAD.dailyStats(day);
+        if (totalVotes == 0 || MINTPAD.dailyTokenVoided(day, token)) return 0;
+
+        uint256 creatorReward = (MINTPAD.getDailyHuntReward(day) * MINTPAD.getCreatorShareBp(day)) / 10000;
+        return (MINTPAD.dailyTokenVotes(day, token) * creatorReward) / totalVotes;
+    }
+
+    /**
+     * @notice Returns the creator rewards a token's bond creator can currently claim with claimCreatorReward
+     * @param token The token's address
+     * @return huntAmount The total claimable HUNT (in Wei)
+     * @return endDay The last day included in this calculation (yesterday, or the day before while
+     * yesterday's committed votes can still be revealed)
+     * @dev Covers the unclaimed days within the expiration window, like voter claims
+     */
+    function getClaimableCreatorHunt(address token) external view returns (uint256 huntAmount, uint256 endDay) {
+        uint256 currentDay = MINTPAD.getCurrentDay();
+        if (currentDay == 0) return (0, 0);
+        endDay = currentDay - 1;
+        if (MINTPAD.isCommitRevealDay(endDay)) {
+            if (endDay == 0) return (0, 0);
+            --endDay;
+        }
+
+        uint256 startDay = MINTPAD.creatorTokenNextClaimDay(token);
+        uint256 expirationDays = MINTPAD.VOTE_EXPIRATION_DAYS();
+        if (currentDay > expirationDays && startDay < currentDay - expirationDays) {
+            startDay = currentDay - expirationDays;
+        }
+        for (uint256 day = startDay; day <= endDay; ++day) {
+            huntAmount += getCreatorDailyReward(day, token);
+        }
+    }
+
+    /**
+     * @notice Returns the expired, unclaimable HUNT that Mintpad's sweepExpiredHunt has not swept yet
+     * @param maxDays The maximum number of days to include (bounds gas usage, same as sweepExpiredHunt)
+     * @return amount The total expired HUNT in the covered days (in Wei)
+     * @return fromDay The first day included (nextSweepDay)
+     * @return toDay The first day not included; covers days in [fromDay, toDay), stopping at the oldest
+     * non-expired day or after maxDays days. Later days are reported once these are swept
+     */
+    function getUnsweptExpiredHunt(
+        uint256 maxDays
+    ) external view returns (uint256 amount, uint256 fromDay, uint256 toDay) {
+        if (maxDays == 0) revert MintpadLens__InvalidParams("maxDays cannot be zero");
+
+        fromDay = MINTPAD.nextSweepDay();
+        uint256 currentDay = MINTPAD.getCurrentDay();
+        uint256 expirationDays = MINTPAD.VOTE_EXPIRATION_DAYS();
+        toDay = currentDay > expirationDays ? currentDay - expirationDays : 0;
+        if (toDay > fromDay && toDay - fromDay > maxDays) toDay = fromDay + maxDays;
+        for (uint256 day = fromDay; day < toDay; ++day) {
+            amount += MINTPAD.getDailyHuntAllocated(day) - MINTPAD.dailyHuntClaimed(day);
+        }
+    }
+
+    // MARK: - Internal Functions
+
+    /**
+     * @dev Returns a user's votes on a token on a single day, with the token's total and the user's reward
+     */
+    function _getVoteRecord(address user, uint256 day, address token) private view returns (VoteRecord memory) {
+        return
+            VoteRecord({
+                day: day,
+                token: token,
+                votes: MINTPAD.dailyUserTokenVotes(day, user, token),
+                tokenVotes: MINTPAD.dailyTokenVotes(day, token),
+                projectedHunt: MINTPAD.getUserDailyReward(day, user, token),
+                claimed: day < MINTPAD.userTokenNextClaimDay(user, token)
+            });
+    }
+
+    /**
+     * @dev Returns the day's ranked tokens (not voided or denylisted) in a list of `size` entries sorted by votes,
+     * keeping only the top `size`, and how many tokens were ranked
+     */
+    function _rankByVotes(
+        uint256 day,
+        address[] memory tokens,
+        uint256 size
+    ) private view returns (address[] memory topTokens, uint32[] memory topVotes, uint256 tokenCount) {
+        topTokens = new address[](size);
+        topVotes = new uint32[](size);
+        for (uint256 i = 0; i < tokens.length; ++i) {
+            address token = tokens[i];
+            if (MINTPAD.dailyTokenVoided(day, token) || MINTPAD.tokenDenied(token)) continue;
+
+            _insertByVotes(topTokens, topVotes, tokenCount, token, MINTPAD.dailyTokenVotes(day, token));
+            ++tokenCount;
+        }
+    }
+
+    /**
+     * @dev Inserts a token into a list sorted by votes (highest first) that holds `filled` entries, dropping the
+     * lowest entry when the list is full. A token tied with an existing entry goes after it
+     */
+    function _insertByVotes(
+        address[] memory tokens,
+        uint32[] memory votes,
+        uint256 filled,
+        address token,
+        uint32 tokenVotes
+    ) private pure {
+        uint256 j = filled;
+        if (j >= tokens.length) {
+            if (tokens.length == 0 || votes[tokens.length - 1] >= tokenVotes) return;
+            j = tokens.length - 1;
+        }
+        while (j > 0 && votes[j - 1] < tokenVotes) {
+            tokens[j] = tokens[j - 1];
+            votes[j] = votes[j - 1];
+            --j;
+        }
+        tokens[j] = token;
+        votes[j] = tokenVotes;
+    }
+}
+
+// MARK: - Interfaces
+
+/**
+ * @title IMintpad
+ * @notice Interface for the Mintpad contract
+ * @dev Minimal interface containing only the functions used by MintpadLens
+ */
+interface IMintpad {
+    function VOTE_EXPIRATION_DAYS() external view returns (uint256);
+
+    function getCurrentDay() external view returns (uint256);
+
+    function dailyUserTokenVotes(uint256 day, address user, address token) external view returns (uint32);
+
+    function userTokenNextClaimDay(address user, address token) external view returns (uint256);
+
+    function getUserDailyTokens(uint256 day, address user) external view returns (address[] memory);
+
+    function getUserDailyReward(uint256 day, address user, address token) external view returns (uint256);
+
+    function getDailyTokens(uint256 day) external view returns (address[] memory);
+
+    function dailyTokenVotes(uint256 day, address token) external view returns (uint32);
+
+    function getRewardMode(uint256 day) external view returns (uint32 userTokenVoteCap, bool quadratic);
+
+    function getStreakMultiplierConfig(
+        uint256 day
+    ) external view returns (uint16 bonusBpPerDay, uint32 maxMultiplierBp);
+
+    function dailyTotalVoteWeight(uint256 day) external view returns (uint256);
+
+    function dailyTokenVoteWeight(uint256 day, address token) external view returns (uint256);
+
+    function userVoteStreaks(address user) external view returns (uint32 lastDay, uint32 length);
+
+    function getStreakMultiplier(uint256 day, uint256 streak) external view returns (uint256);
+
+    function dailyStats(
+        uint256 day
+    )
+        external
+        view
+        returns (
+            uint32 totalVotingPointGiven,
+            uint32 totalVotingPointSpent,
+            uint32 votingCount,
+            uint32 claimCount,
+            uint88 totalHuntClaimed
+        );
+
+    function dailyTokenVoided(uint256 day, address token) external view returns (bool);
+
+    function tokenDenied(address token) external view returns (bool);
+
+    function getDailyHuntReward(uint256 day) external view returns (uint256);
+
+    function getCreatorShareBp(uint256 day) external view returns (uint256);
+
+    function creatorTokenNextClaimDay(address token) external view returns (uint256);
+
+    function isCommitRevealDay(uint256 day) external view returns (bool);
+
+    function nextSweepDay() external view returns (uint256);
+
+    function getDailyHuntAllocated(uint256 day) external view returns (uint256);
+
+    function dailyHuntClaimed(uint256 day) external view returns (uint256);
+}
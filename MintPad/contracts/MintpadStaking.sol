@@ -0,0 +1,171 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IERC1155} from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import {ERC1155Holder} from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/**
+ * @title MintpadStaking
+ * @notice Derives Mintpad voting points from HUNT and Mini Buildings staked into this contract
+ * @dev Set as Mintpad's `votingPointSource`, so users can activate their points with
+ * `activateVotingPointFromSource` without a signature. Unstaking stops earning immediately, but the assets are
+ * only withdrawable after UNSTAKE_COOLDOWN, which spans at least one Mintpad day, so the same HUNT cannot back
+ * another account's points on the same day.
+ */
+contract MintpadStaking is ERC1155Holder {
+    using SafeERC20 for IERC20;
+
+    // MARK: - Errors
+    error MintpadStaking__InvalidParams(string param);
+    error MintpadStaking__CooldownNotOver(uint256 unlockTime);
+
+    // MARK: - Structs
+    struct Stake {
+        uint128 hunt; // HUNT (in Wei) earning voting points
+        uint32 buildings; // Mini Buildings earning voting points
+    }
+
+    struct PendingUnstake {
+        uint128 hunt; // HUNT (in Wei) awaiting withdrawal
+        uint32 buildings; // Mini Buildings awaiting withdrawal
+        uint64 unlockTime; // Timestamp from which the pending assets can be withdrawn
+    }
+
+    // MARK: - Constants
+    IERC20 public constant HUNT = IERC20(0x37f0c2915CeCC7e977183B8543Fc0864d03E064C);
+    IERC1155 public constant MINI_BUILDING = IERC1155(0x475f8E3eE5457f7B4AAca7E989D35418657AdF2a);
+    uint256 private constant MINI_BUILDING_ID = 0;
+    uint256 public constant MAX_POINTS_PER_BUILDING = 10000;
+
+    uint256 public immutable HUNT_PER_POINT;
+    uint256 public immutable POINTS_PER_BUILDING;
+    uint256 public immutable UNSTAKE_COOLDOWN;
+
+    // MARK: - State Variables
+    /// @notice Maps user => assets currently earning voting points
+    mapping(address => Stake) public stakes;
+
+    /// @notice Maps user => assets unstaked but still in cooldown
+    mapping(address => PendingUnstake) public pendingUnstakes;
+
+    // MARK: - Events
+    event Staked(address indexed user, uint256 huntAmount, uint256 buildingAmount);
+    event UnstakeRequested(address indexed user, uint256 huntAmount, uint256 buildingAmount, uint256 unlockTime);
+    event Withdrawn(address indexed user, uint256 huntAmount, uint256 buildingAmount);
+
+    // MARK: - Constructor
+    /**
+     * @param mintpad The Mintpad contract whose day length bounds the cooldown
+     * @param huntPerPoint HUNT (in Wei) staked per voting point (at least 1 HUNT so daily totals fit in uint32)
+     * @param pointsPerBuilding Voting points per staked Mini Building (at most MAX_POINTS_PER_BUILDING)
+     * @param unstakeCooldown Seconds between requesting an unstake and withdrawing it (at least Mintpad's EPOCH_LENGTH)
+     */
+    constructor(address mintpad, uint256 huntPerPoint, uint256 pointsPerBuilding, uint256 unstakeCooldown) {
+        if (mintpad == address(0)) revert MintpadStaking__InvalidParams("zero address");
+        if (huntPerPoint < 1 ether) revert MintpadStaking__InvalidParams("huntPerPoint below 1 HUNT");
+        if (pointsPerBuilding > MAX_POINTS_PER_BUILDING) {
+            revert MintpadStaking__InvalidParams("pointsPerBuilding exceeds max");
+        }
+        if (unstakeCooldown < IMintpad(mintpad).EPOCH_LENGTH()) {
+            revert MintpadStaking__InvalidParams("unstakeCooldown below epoch length");
+        }
+
+        HUNT_PER_POINT = huntPerPoint;
+        POINTS_PER_BUILDING = pointsPerBuilding;
+        UNSTAKE_COOLDOWN = unstakeCooldown;
+    }
+
+    // MARK: - Write Functions
+
+    /**
+     * @notice Stakes HUNT and/or Mini Buildings to earn voting points
+     * @param huntAmount HUNT (in Wei) to pull from the caller (requires approval)
+     * @param buildingAmount Mini Buildings to pull from the caller (requires setApprovalForAll)
+     * @dev Points count from the next activation; an activation already made today is not increased
+     */
+    function stake(uint256 huntAmount, uint256 buildingAmount) external {
+        if (huntAmount == 0 && buildingAmount == 0) revert MintpadStaking__InvalidParams("nothing to stake");
+
+        Stake storage s = stakes[msg.sender];
+        s.hunt += SafeCast.toUint128(huntAmount);
+        s.buildings += SafeCast.toUint32(buildingAmount);
+
+        if (huntAmount > 0) HUNT.safeTransferFrom(msg.sender, address(this), huntAmount);
+        if (buildingAmount > 0) {
+            MINI_BUILDING.safeTransferFrom(msg.sender, address(this), MINI_BUILDING_ID, buildingAmount, "");
+        }
+
+        emit Staked(msg.sender, huntAmount, buildingAmount);
+    }
+
+    /**
+     * @notice Stops staked assets from earning voting points and starts their withdrawal cooldown
+     * @param huntAmount HUNT (in Wei) to unstake
+     * @param buildingAmount Mini Buildings to unstake
+     * @dev Assets already pending are added to and share the new unlock time, restarting their cooldown
+     */
+    function requestUnstake(uint256 huntAmount, uint256 buildingAmount) external {
+        if (huntAmount == 0 && buildingAmount == 0) revert MintpadStaking__InvalidParams("nothing to unstake");
+
+        Stake storage s = stakes[msg.sender];
+        if (huntAmount > s.hunt) revert MintpadStaking__InvalidParams("huntAmount exceeds stake");
+        if (buildingAmount > s.buildings) revert MintpadStaking__InvalidParams("buildingAmount exceeds stake");
+
+        uint256 unlockTime = block.timestamp + UNSTAKE_COOLDOWN;
+        PendingUnstake storage pending = pendingUnstakes[msg.sender];
+        unchecked {
+            // Safe: amounts were checked against the stake above
+            s.hunt -= uint128(huntAmount);
+            s.buildings -= uint32(buildingAmount);
+        }
+        pending.hunt += uint128(huntAmount);
+        pending.buildings += uint32(buildingAmount);
+        pending.unlockTime = SafeCast.toUint64(unlockTime);
+
+        emit UnstakeRequested(msg.sender, huntAmount, buildingAmount, unlockTime);
+    }
+
+    /**
+     * @notice Withdraws all assets whose unstake cooldown has ended
+     */
+    function withdraw() external {
+        PendingUnstake memory pending = pendingUnstakes[msg.sender];
+        if (pending.hunt == 0 && pending.buildings == 0) revert MintpadStaking__InvalidParams("nothing to withdraw");
+        if (block.timestamp < pending.unlockTime) revert MintpadStaking__CooldownNotOver(pending.unlockTime);
+
+        delete pendingUnstakes[msg.sender];
+
+        if (pending.hunt > 0) HUNT.safeTransfer(msg.sender, pending.hunt);
+        if (pending.buildings > 0) {
+            MINI_BUILDING.safeTransferFrom(address(this), msg.sender, MINI_BUILDING_ID, pending.buildings, "");
+        }
+
+        emit Withdrawn(msg.sender, pending.hunt, pending.buildings);
+    }
+
+    // MARK: - View Functions
+
+    /**
+     * @notice Returns the voting points a user's current stake earns per day
+     * @param user The user's address
+     * @return Staked HUNT / HUNT_PER_POINT + staked Mini Buildings * POINTS_PER_BUILDING (pending unstakes excluded)
+     */
+    function getVotingPoint(address user) external view returns (uint32) {
+        Stake memory s = stakes[user];
+        return SafeCast.toUint32(s.hunt / HUNT_PER_POINT + uint256(s.buildings) * POINTS_PER_BUILDING);
+    }
+}
+
+// MARK: - Interfaces
+
+/**
+ * @title IMintpad
+ * @notice Interface for the Mintpad contract
+ * @dev Minimal interface containing only the functions used by MintpadStaking
+ */
+interface IMintpad {
+    function EPOCH_LENGTH() external view returns (uint256);
+}
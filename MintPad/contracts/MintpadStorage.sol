@@ -0,0 +1,565 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Checkpoints} from "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title MintpadStorage
+ * @notice Errors, events, constants and state shared by Mintpad and its admin module
+ * @dev Mintpad delegatecalls MintpadAdmin for owner, guardian and infrequent user functions, so both contracts
+ * must share this exact storage layout. Declare all state variables here, never in Mintpad or MintpadAdmin
+ * themselves.
+ */
+abstract contract MintpadStorage is Ownable {
+    using Checkpoints for Checkpoints.Trace224;
+
+    // MARK: - Errors
+    error Mintpad__InvalidParams(string param);
+    error Mintpad__InsufficientVotingPoints();
+    error Mintpad__NothingToClaim();
+    error Mintpad__ExcessiveLeftover(uint256 actualHuntSpent);
+    error Mintpad__InvalidSignature();
+    error Mintpad__AlreadyActivated();
+    error Mintpad__MigrationClosed();
+    error Mintpad__SignatureExpired();
+    error Mintpad__NotOperator();
+    error Mintpad__NotEnoughSignatures();
+    error Mintpad__SignerCapExceeded(address signer);
+    error Mintpad__NotActivated();
+    error Mintpad__TokenNotAllowed(address token);
+    error Mintpad__Paused(PauseSwitch pauseSwitch);
+    error Mintpad__NotCreator();
+    error Mintpad__VotesMustBeCommitted();
+    error Mintpad__InvalidReveal();
+
+    // MARK: - Constants
+    IERC20 internal constant HUNT = IERC20(0x37f0c2915CeCC7e977183B8543Fc0864d03E064C);
+    IMCV2_Bond public constant BOND = IMCV2_Bond(0xc5a076cad94176c2996B32d8466Be1cE757FAa27);
+    IMCV2_BondPeriphery public constant BOND_PERIPHERY =
+        IMCV2_BondPeriphery(0x492C412369Db76C9cdD9939e6C521579301473a3);
+    uint256 public constant VOTE_EXPIRATION_DAYS = 30;
+    uint256 internal constant SECONDS_PER_DAY = 86400;
+    uint256 internal constant MAX_STREAK_MULTIPLIER_BP = 50000; // 5x
+    uint256 internal constant MAX_CREATOR_SHARE_BP = 5000; // 50%
+    uint256 internal constant MAX_DONATION_SPLITS = 10;
+    uint256 internal immutable DEPLOYMENT_TIMESTAMP;
+    uint256 public immutable EPOCH_LENGTH; // Length of a Mintpad "day" in seconds (SECONDS_PER_DAY in production)
+    IMintpadV1 public immutable PREVIOUS_MINTPAD; // Zero address for fresh deployments
+
+    // EIP-712 Domain
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 internal immutable DOMAIN_SEPARATOR;
+
+    // MARK: - State Variables
+    uint256 public dailyHuntReward; // Latest daily HUNT reward pool (in Wei), see getDailyHuntReward for a given day
+
+    /// @dev Reward schedule: day => dailyHuntReward in effect from that day onwards
+    Checkpoints.Trace224 internal _dailyHuntRewardHistory;
+
+    /// @dev Reward mode schedule: day => (quadratic << 32 | userTokenVoteCap) in effect from that day onwards
+    Checkpoints.Trace224 internal _rewardModeHistory;
+
+    /// @dev Streak multiplier schedule: day => (bonusBpPerDay << 32 | maxMultiplierBp) in effect from that day onwards
+    Checkpoints.Trace224 internal _streakMultiplierHistory;
+
+    /// @dev Creator share schedule: day => creatorShareBp in effect from that day onwards
+    Checkpoints.Trace224 internal _creatorShareHistory;
+
+    /// @dev Commit-reveal schedule: day => 1 if votes must be committed and revealed, 0 otherwise
+    Checkpoints.Trace224 internal _commitRevealHistory;
+
+    /// @notice Maps signer => maximum voting points the signer can issue per day (0 = not an authorized signer)
+    mapping(address => uint32) public signerDailyCap;
+
+    /// @notice Maps day => signer => voting points issued by the signer on that day
+    mapping(uint256 => mapping(address => uint32)) public dailySignerIssued;
+
+    /// @notice Activations above this many voting points require largeAllocationSignatures distinct signers
+    uint32 public largeAllocationThreshold = type(uint32).max;
+    uint8 public largeAllocationSignatures = 1;
+
+    /// @dev Daily statistics for vote and claim tracking
+    struct DailyStats {
+        uint32 totalVotingPointGiven; // Total voting points allocated for the day
+        uint32 totalVotingPointSpent; // Total voting points spent for the day
+        uint32 votingCount; // Number of vote transactions for the day
+        uint32 claimCount; // Number of claim transactions for the day
+        uint88 totalHuntClaimed; // Total HUNT claimed for the day (in Wei)
+    }
+    /// @notice Maps day => DailyStats
+    mapping(uint256 => DailyStats) public dailyStats;
+
+    /// @dev Daily voting points for each user. Activated by user with signature, deducted on vote
+    struct VotingPoint {
+        uint32 activated;
+        uint32 left;
+        uint32 streak; // Consecutive voting days ending on this day, recorded on the user's first vote of the day
+    }
+    /// @notice Maps day => user => voting points (activated and remaining) and the user's streak on that day
+    mapping(uint256 => mapping(address => VotingPoint)) public dailyUserVotingPoint;
+
+    /// @dev A user's run of consecutive days with at least one vote
+    struct VoteStreak {
+        uint32 lastDay; // The last day the user voted
+        uint32 length; // Consecutive voting days ending on lastDay (0 = never voted)
+    }
+    /// @notice Maps user => their latest voting streak
+    mapping(address => VoteStreak) public userVoteStreaks;
+
+    /// @notice Maps day => user => token => voting points spent
+    mapping(uint256 => mapping(address => mapping(address => uint32))) public dailyUserTokenVotes;
+
+    /// @dev Maps day => user => tokens the user voted for on that day, in order of their first vote
+    mapping(uint256 => mapping(address => EnumerableSet.AddressSet)) internal _dailyUserTokens;
+
+    /// @notice Maps day => token => total voting points spent on the token
+    mapping(uint256 => mapping(address => uint32)) public dailyTokenVotes;
+
+    /// @dev Maps day => tokens that received votes on that day, in order of their first vote
+    mapping(uint256 => EnumerableSet.AddressSet) internal _dailyTokens;
+
+    /// @notice Maps day => sum of shaped vote weights (only tracked on days with a capped or quadratic reward mode)
+    mapping(uint256 => uint256) public dailyTotalVoteWeight;
+
+    /// @notice Maps day => token => sum of shaped vote weights for the token
+    mapping(uint256 => mapping(address => uint256)) public dailyTokenVoteWeight;
+
+    /// @notice Maps day => token => whether the token's votes for that day were voided by the owner
+    mapping(uint256 => mapping(address => bool)) public dailyTokenVoided;
+
+    /// @notice Maps token => whether voting for the token is blocked
+    mapping(address => bool) public tokenDenied;
+
+    /// @notice Maps token => whether the token can be voted for while allowlistOnly is on
+    mapping(address => bool) public tokenAllowed;
+
+    /// @notice When true, only allowlisted tokens can receive votes
+    bool public allowlistOnly;
+
+    /// @notice Maps user => token => next claimable day (last claimed day + 1)
+    /// @dev Tracks claimed days to prevent double-claiming. 0 means never claimed, so day 0 is unambiguous
+    mapping(address => mapping(address => uint256)) public userTokenNextClaimDay;
+
+    /// @notice Maps user => nonce for signed vote intents (voteBySig)
+    mapping(address => uint256) public voteNonces;
+
+    /// @notice Maps user => nonce for signed voting point top-ups
+    mapping(address => uint256) public topUpNonces;
+
+    /// @notice Maps vote day => HUNT claimed against that day's reward pool (in Wei)
+    /// @dev Unlike DailyStats.totalHuntClaimed (keyed by claim day), this is keyed by the day votes were cast
+    mapping(uint256 => uint256) public dailyHuntClaimed;
+
+    /// @notice The first day whose expired rewards have not been swept yet
+    uint256 public nextSweepDay;
+
+    /// @notice LowRunway is emitted when the HUNT balance drops below this many days of dailyHuntReward (0 = off)
+    uint256 public runwayAlertDays = 7;
+
+    /// @notice Maps user => operator => token => approved to claim on the user's behalf
+    /// @dev token = address(0) approves the operator for all tokens
+    mapping(address => mapping(address => mapping(address => bool))) public operatorApprovals;
+
+    /// @notice Maps user => nonce for signed operator approvals (setOperatorBySig)
+    mapping(address => uint256) public operatorApprovalNonces;
+
+    /// @notice Whether state can still be imported from PREVIOUS_MINTPAD
+    bool public migrationOpen;
+
+    /// @dev Independent circuit breakers for each user-facing flow
+    enum PauseSwitch {
+        Activation, // activateVotingPoint, topUpVotingPoint
+        Voting, // vote, voteBySig, voteMultiple, activateAndVote, reallocateVote, commitVotes (not revealVotes)
+        Claiming // claim, claimMax, claimMultiple and their operator variants
+    }
+    /// @notice Maps PauseSwitch => paused
+    mapping(PauseSwitch => bool) public paused;
+
+    /// @notice Address that can pause (but not unpause) any flow, in addition to the owner
+    address public guardian;
+
+    /// @dev A donation recipient and its share of the minted tokens
+    struct DonationSplit {
+        address recipient;
+        uint16 bp; // Basis points of the minted tokens (100 = 1%)
+    }
+    /// @dev Maps token => preset name => donation splits registered by the token's bond creator
+    mapping(address => mapping(bytes32 => DonationSplit[])) internal _donationPresets;
+
+    /// @notice Sponsored bonus pools paid out with claims on top of the base reward (zero address = not set yet)
+    IMintpadBonusPools public bonusPools;
+
+    /// @notice Maps token => next day its bond creator can claim the creator reward for (last claimed day + 1)
+    mapping(address => uint256) public creatorTokenNextClaimDay;
+
+    /// @notice Maps day => user => hash of the user's committed votes, cleared once revealed
+    mapping(uint256 => mapping(address => bytes32)) public dailyVoteCommitments;
+
+    /// @notice Contract computing voting points on-chain, activated without a signature (zero address = off)
+    IVotingPointSource public votingPointSource;
+
+    // MARK: - Events
+    event SignerUpdated(address indexed signer, uint32 dailyCap);
+    event VotingPointSourceUpdated(address indexed source);
+    event BonusPoolsSet(address indexed bonusPools);
+    event LargeAllocationPolicyUpdated(uint32 threshold, uint8 requiredSignatures);
+    event DailyHuntRewardUpdated(uint256 newDailyHuntReward);
+    event RewardModeUpdated(uint256 fromDay, uint32 userTokenVoteCap, bool quadratic);
+    event StreakMultiplierUpdated(uint256 fromDay, uint16 bonusBpPerDay, uint32 maxMultiplierBp);
+    event CreatorShareUpdated(uint256 fromDay, uint16 creatorShareBp);
+    event CommitRevealModeUpdated(uint256 fromDay, bool enabled);
+    event MigrationFinished();
+    event GuardianUpdated(address newGuardian);
+    event PauseUpdated(PauseSwitch indexed pauseSwitch, bool paused, address indexed account);
+    event ExpiredHuntSwept(address indexed treasury, uint256 fromDay, uint256 toDay, uint256 amount);
+    event RunwayAlertDaysUpdated(uint256 newRunwayAlertDays);
+    event LowRunway(uint256 huntBalance, uint256 dailyHuntReward, uint256 runwayAlertDays);
+    event TokenDenylistUpdated(address indexed token, bool denied);
+    event TokenAllowlistUpdated(address indexed token, bool allowed);
+    event AllowlistOnlyUpdated(bool enabled);
+    event TokenVotesVoided(uint256 indexed day, address indexed token, uint32 votes);
+    event OperatorApprovalUpdated(address indexed user, address indexed operator, address indexed token, bool approved);
+    event VotingPointActivated(uint256 indexed day, address indexed user, uint32 votingPoint);
+    event VotingPointToppedUp(uint256 indexed day, address indexed user, uint32 votingPoint, uint256 nonce);
+    event VotesCommitted(uint256 indexed day, address indexed user, bytes32 commitment);
+    event Voted(uint256 indexed day, address indexed user, address indexed token, uint32 voteAmount);
+    event RevealedVoteSkipped(uint256 indexed day, address indexed user, address indexed token, uint32 voteAmount);
+    event VoteReallocated(
+        uint256 indexed day,
+        address indexed user,
+        address indexed fromToken,
+        address toToken,
+        uint32 amount
+    );
+    event Claimed(
+        address indexed user,
+        address indexed token,
+        uint256 dayClaimedUpTo,
+        uint256 actualHuntSpent,
+        uint256 tokensMinted,
+        uint256 indexed donationBp
+    );
+    event DonationPresetUpdated(address indexed token, bytes32 indexed name, DonationSplit[] splits);
+    event Donated(address indexed user, address indexed token, address indexed recipient, uint256 amount);
+    event CreatorRewardClaimed(
+        address indexed token,
+        address indexed creator,
+        uint256 dayClaimedUpTo,
+        uint256 actualHuntSpent,
+        uint256 tokensMinted
+    );
+
+    // MARK: - Constructor
+    /**
+     * @param deploymentTimestamp Start of day 0
+     * @param epochLength Length of a day in seconds
+     * @param previousMintpad Mintpad V1 address to migrate state from (zero address for a fresh deployment)
+     * @param mintpad The Mintpad contract, used as the EIP-712 verifying contract
+     */
+    constructor(
+        uint256 deploymentTimestamp,
+        uint256 epochLength,
+        address previousMintpad,
+        address mintpad
+    ) Ownable(msg.sender) {
+        DEPLOYMENT_TIMESTAMP = deploymentTimestamp;
+        EPOCH_LENGTH = epochLength;
+        PREVIOUS_MINTPAD = IMintpadV1(previousMintpad);
+
+        // Initialize EIP-712 domain separator
+        DOMAIN_SEPARATOR = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256(bytes("Mintpad")), keccak256(bytes("1")), block.chainid, mintpad)
+        );
+    }
+
+    // MARK: - Shared Functions
+
+    /**
+     * @notice Returns the current day number since contract deployment
+     * @return Current day (0 = deployment day, increments every EPOCH_LENGTH seconds)
+     * @dev With the default 86400-second epoch and genesis, day boundaries align with UTC (00:00-23:59:59)
+     * @dev Voting is allowed only on the current day; claims are available starting the next day
+     */
+    function getCurrentDay() public view returns (uint256) {
+        return (block.timestamp - DEPLOYMENT_TIMESTAMP) / EPOCH_LENGTH;
+    }
+
+    /**
+     * @notice Returns the HUNT allocated to voters for a given day
+     * @param day The day number to query
+     * @return The day's reward pool if any votes were cast on that day, otherwise 0
+     */
+    function getDailyHuntAllocated(uint256 day) public view returns (uint256) {
+        if (dailyStats[day].totalVotingPointSpent == 0) return 0;
+        return _dailyHuntRewardHistory.upperLookupRecent(SafeCast.toUint32(day));
+    }
+
+    /**
+     * @notice Returns the share of the daily reward pool paid to bond creators on a given day
+     * @param day The day number to query
+     * @return Basis points of the day's reward pool split among the creators of the voted tokens (100 = 1%)
+     */
+    function getCreatorShareBp(uint256 day) public view returns (uint256) {
+        return _creatorShareHistory.upperLookupRecent(SafeCast.toUint32(day));
+    }
+
+    /**
+     * @notice Returns whether votes on a given day must be committed and then revealed
+     * @param day The day number to query
+     * @return True if votes are committed during the day and only count once revealed on the following day
+     */
+    function isCommitRevealDay(uint256 day) public view returns (bool) {
+        return _commitRevealHistory.upperLookupRecent(SafeCast.toUint32(day)) != 0;
+    }
+
+    /**
+     * @notice Returns the HUNT still owed to voters: allocated minus claimed for all non-expired days,
+     * including the current day
+     * @return outstanding The total outstanding HUNT obligation (in Wei)
+     * @dev Migrated V1 days do not track claims made on V1, so the figure is conservative for those days
+     */
+    function getOutstandingHunt() public view returns (uint256 outstanding) {
+        uint256 currentDay = getCurrentDay();
+        for (uint256 day = _getExpiryFloorDay(currentDay); day <= currentDay; ++day) {
+            outstanding += _getUnclaimedHunt(day);
+        }
+    }
+
+    /**
+     * @notice Returns the HUNT balance not reserved for outstanding voter rewards
+     * @return The contract's HUNT balance minus getOutstandingHunt() (0 if the balance does not cover it)
+     */
+    function getAvailableHunt() public view returns (uint256) {
+        uint256 balance = HUNT.balanceOf(address(this));
+        uint256 outstanding = getOutstandingHunt();
+        return balance > outstanding ? balance - outstanding : 0;
+    }
+
+    /**
+     * @dev Returns the HUNT allocated to a day that has not been claimed yet. Rounding dust is included
+     */
+    function _getUnclaimedHunt(uint256 day) internal view returns (uint256) {
+        return getDailyHuntAllocated(day) - dailyHuntClaimed[day];
+    }
+
+    /**
+     * @dev Returns the last day whose rewards are final as of `currentDay`, or false if there is none yet.
+     * Yesterday is final unless it is a commit-reveal day, whose votes can still be revealed today
+     */
+    function _getLastSettledDay(uint256 currentDay) internal view returns (bool settled, uint256 day) {
+        if (currentDay == 0) return (false, 0);
+
+        unchecked {
+            day = currentDay - 1; // Safe: currentDay > 0
+        }
+        if (!isCommitRevealDay(day)) return (true, day);
+        if (day == 0) return (false, 0);
+        unchecked {
+            return (true, day - 1); // Safe: day > 0
+        }
+    }
+
+    /**
+     * @dev Reverts unless the splits have non-zero recipients and shares summing to at most 10000 bp
+     * @return totalBp The sum of all shares
+     */
+    function _validateDonationSplits(DonationSplit[] memory splits) internal pure returns (uint256 totalBp) {
+        if (splits.length > MAX_DONATION_SPLITS) revert Mintpad__InvalidParams("too many splits");
+        for (uint256 i = 0; i < splits.length; ++i) {
+            if (splits[i].recipient == address(0)) revert Mintpad__InvalidParams("zero address");
+            if (splits[i].bp == 0) revert Mintpad__InvalidParams("bp cannot be zero");
+            totalBp += splits[i].bp;
+        }
+        if (totalBp > 10000) revert Mintpad__InvalidParams("splits exceed 10000 bp");
+    }
+
+    /**
+     * @dev Verifies one or more concatenated 65-byte EIP-712 signatures from authorized signers and consumes
+     * each signer's daily cap. Signatures must be ordered by ascending signer address so signers are distinct.
+     * Large allocations (user's activated total above largeAllocationThreshold) require largeAllocationSignatures
+     * signatures.
+     */
+    function _verifyVotingPointSignatures(
+        bytes32 structHash,
+        uint256 day,
+        uint32 votingPoint,
+        uint32 activatedTotal,
+        bytes calldata signatures
+    ) internal {
+        if (signatures.length == 0 || signatures.length % 65 != 0) revert Mintpad__InvalidSignature();
+
+        uint256 signatureCount = signatures.length / 65;
+        if (activatedTotal > largeAllocationThreshold && signatureCount < largeAllocationSignatures) {
+            revert Mintpad__NotEnoughSignatures();
+        }
+
+        // Verify EIP-712 signatures
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash));
+
+        address lastSigner = address(0);
+        for (uint256 i = 0; i < signatureCount; ++i) {
+            address recoveredSigner = ECDSA.recover(digest, signatures[i * 65:(i + 1) * 65]);
+            if (recoveredSigner <= lastSigner) revert Mintpad__InvalidSignature();
+            lastSigner = recoveredSigner;
+
+            uint32 dailyCap = signerDailyCap[recoveredSigner];
+            if (dailyCap == 0) revert Mintpad__InvalidSignature();
+
+            uint32 issued = dailySignerIssued[day][recoveredSigner];
+            // The cap may have been lowered below what was already issued today
+            if (uint256(issued) + votingPoint > dailyCap) revert Mintpad__SignerCapExceeded(recoveredSigner);
+            unchecked {
+                // Safe: issued + votingPoint <= dailyCap
+                dailySignerIssued[day][recoveredSigner] = issued + votingPoint;
+            }
+        }
+    }
+
+    /**
+     * @dev Returns the oldest day that has not expired yet as of `currentDay`
+     */
+    function _getExpiryFloorDay(uint256 currentDay) internal pure returns (uint256) {
+        return currentDay > VOTE_EXPIRATION_DAYS ? currentDay - VOTE_EXPIRATION_DAYS : 0;
+    }
+
+    /**
+     * @dev Updates the current day's claim statistics (gas optimization: single SSTORE per transaction)
+     * @param claimCount Number of claims made in the transaction
+     * @param huntSpent Total HUNT spent across those claims (in Wei)
+     */
+    function _recordClaims(uint256 claimCount, uint256 huntSpent) internal {
+        unchecked {
+            uint256 currentDay = getCurrentDay();
+            DailyStats memory stats = dailyStats[currentDay];
+            // Safe: uint88 max is ~3.09e26 wei, HUNT total supply is 198M (1.98e26 wei)
+            // Daily claims cannot exceed total HUNT supply
+            stats.totalHuntClaimed += uint88(huntSpent);
+            stats.claimCount += uint32(claimCount);
+            dailyStats[currentDay] = stats;
+        }
+
+        _checkRunway(huntSpent);
+    }
+
+    /**
+     * @dev Emits LowRunway when a HUNT outflow of `huntSpent` moves the balance below runwayAlertDays
+     * worth of the current dailyHuntReward. Only emitted on the crossing, not on every subsequent outflow
+     */
+    function _checkRunway(uint256 huntSpent) internal {
+        uint256 threshold = runwayAlertDays * dailyHuntReward;
+        uint256 balance = HUNT.balanceOf(address(this));
+
+        if (balance < threshold && balance + huntSpent >= threshold) {
+            emit LowRunway(balance, dailyHuntReward, runwayAlertDays);
+        }
+    }
+}
+
+// MARK: - Interfaces
+
+/**
+ * @title IMCV2_Bond
+ * @notice Interface for the MCV2_Bond bonding curve contract
+ * @dev Minimal interface containing only the functions used by Mintpad
+ */
+interface IMCV2_Bond {
+    function mint(
+        address token,
+        uint256 tokensToMint,
+        uint256 maxReserveAmount,
+        address receiver
+    ) external returns (uint256);
+
+    function tokenBond(
+        address token
+    )
+        external
+        view
+        returns (
+            address creator,
+            uint16 mintRoyalty,
+            uint16 burnRoyalty,
+            uint40 createdAt,
+            address reserveToken,
+            uint256 reserveBalance
+        );
+}
+
+/**
+ * @title IMCV2_BondPeriphery
+ * @notice Interface for the MCV2_BondPeriphery contract
+ * @dev Minimal interface containing only the functions used by Mintpad
+ */
+interface IMCV2_BondPeriphery {
+    function mintWithReserveAmount(
+        address token,
+        uint256 reserveAmount,
+        uint256 minTokensToMint,
+        address receiver
+    ) external returns (uint256 tokensMinted);
+}
+
+/**
+ * @title IVotingPointSource
+ * @notice Interface for contracts that compute users' daily voting points on-chain (e.g. MintpadStaking)
+ */
+interface IVotingPointSource {
+    function getVotingPoint(address user) external view returns (uint32);
+}
+
+/**
+ * @title IMintpadBonusPools
+ * @notice Interface for the MintpadBonusPools contract
+ * @dev Minimal interface containing only the functions used by Mintpad
+ */
+interface IMintpadBonusPools {
+    function MINTPAD() external view returns (address);
+
+    function claimBonus(
+        address user,
+        address token,
+        uint256 startDay,
+        uint256 endDay
+    ) external returns (uint256 bonusHunt);
+
+    function getBonusHunt(
+        address user,
+        address token,
+        uint256 startDay,
+        uint256 endDay
+    ) external view returns (uint256 bonusHunt);
+}
+
+/**
+ * @title IMintpadV1
+ * @notice Interface for the previously deployed Mintpad V1 contract
+ * @dev Minimal interface containing only the getters used for state migration
+ */
+interface IMintpadV1 {
+    function getDeploymentTimestamp() external view returns (uint256);
+
+    function dailyHuntReward() external view returns (uint256);
+
+    function dailyStats(
+        uint256 day
+    )
+        external
+        view
+        returns (
+            uint32 totalVotingPointGiven,
+            uint32 totalVotingPointSpent,
+            uint32 votingCount,
+            uint32 claimCount,
+            uint88 totalHuntClaimed
+        );
+
+    function dailyUserTokenVotes(uint256 day, address user, address token) external view returns (uint32);
+
+    function userTokenLastClaimDay(address user, address token) external view returns (uint256);
+}
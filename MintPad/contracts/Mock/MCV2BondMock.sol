@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+/**
+ * @dev Minimal stand-in for MCV2_Bond's tokenBond, placed at the BOND address with setCode in local tests
+ */
+contract MCV2BondMock {
+    mapping(address => address) private reserveTokens;
+
+    function setReserveToken(address token, address reserveToken) external {
+        reserveTokens[token] = reserveToken;
+    }
+
+    function tokenBond(
+        address token
+    )
+        external
+        view
+        returns (
+            address creator,
+            uint16 mintRoyalty,
+            uint16 burnRoyalty,
+            uint40 createdAt,
+            address reserveToken,
+            uint256 reserveBalance
+        )
+    {
+        return (address(0), 0, 0, 0, reserveTokens[token], 0);
+    }
+}
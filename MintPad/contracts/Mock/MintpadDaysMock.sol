@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+/**
+ * @dev Minimal stand-in for Mintpad's day getters, so off-chain day math can be tested without a Base fork
+ */
+contract MintpadDaysMock {
+    uint256 private immutable DEPLOYMENT_TIMESTAMP;
+    uint256 public immutable EPOCH_LENGTH;
+
+    constructor(uint256 deploymentTimestamp, uint256 epochLength) {
+        DEPLOYMENT_TIMESTAMP = deploymentTimestamp;
+        EPOCH_LENGTH = epochLength;
+    }
+
+    function getDeploymentTimestamp() external view returns (uint256) {
+        return DEPLOYMENT_TIMESTAMP;
+    }
+
+    function getCurrentDay() external view returns (uint256) {
+        return (block.timestamp - DEPLOYMENT_TIMESTAMP) / EPOCH_LENGTH;
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+/**
+ * @dev Minimal stand-in for the deployed Mintpad V1, exposing the getters used by V2 state migration
+ */
+contract MintpadV1Mock {
+    struct DailyStats {
+        uint32 totalVotingPointGiven;
+        uint32 totalVotingPointSpent;
+        uint32 votingCount;
+        uint32 claimCount;
+        uint88 totalHuntClaimed;
+    }
+
+    uint256 private immutable DEPLOYMENT_TIMESTAMP;
+
+    uint256 public dailyHuntReward;
+
+    mapping(uint256 => DailyStats) public dailyStats;
+    mapping(uint256 => mapping(address => mapping(address => uint32))) public dailyUserTokenVotes;
+    mapping(address => mapping(address => uint256)) public userTokenLastClaimDay;
+
+    constructor(uint256 deploymentTimestamp, uint256 initialDailyHuntReward) {
+        DEPLOYMENT_TIMESTAMP = deploymentTimestamp;
+        dailyHuntReward = initialDailyHuntReward;
+    }
+
+    function setDailyStats(uint256 day, DailyStats calldata stats) external {
+        dailyStats[day] = stats;
+    }
+
+    function setDailyUserTokenVotes(uint256 day, address user, address token, uint32 votes) external {
+        dailyUserTokenVotes[day][user][token] = votes;
+    }
+
+    function setUserTokenLastClaimDay(address user, address token, uint256 day) external {
+        userTokenLastClaimDay[user][token] = day;
+    }
+
+    function getDeploymentTimestamp() external view returns (uint256) {
+        return DEPLOYMENT_TIMESTAMP;
+    }
+}
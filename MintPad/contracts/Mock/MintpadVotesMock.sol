@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: BSD-3-Clause
+pragma solidity ^0.8.30;
+
+import {MintpadBonusPools} from "../MintpadBonusPools.sol";
+
+/**
+ * @dev Minimal stand-in for the Mintpad reads used by MintpadBonusPools, with setters for tests
+ */
+contract MintpadVotesMock {
+    uint256 public constant VOTE_EXPIRATION_DAYS = 30;
+
+    uint256 private currentDay;
+
+    mapping(address => bool) public tokenDenied;
+    mapping(uint256 => mapping(address => mapping(address => uint32))) public dailyUserTokenVotes;
+    mapping(uint256 => mapping(address => uint32)) public dailyTokenVotes;
+    mapping(uint256 => mapping(address => bool)) public dailyTokenVoided;
+
+    function setCurrentDay(uint256 day) external {
+        currentDay = day;
+    }
+
+    function setTokenDenied(address token, bool denied) external {
+        tokenDenied[token] = denied;
+    }
+
+    function setTokenVoided(uint256 day, address token, bool voided) external {
+        dailyTokenVoided[day][token] = voided;
+    }
+
+    function addVotes(uint256 day, address user, address token, uint32 votes) external {
+        dailyUserTokenVotes[day][user][token] += votes;
+        dailyTokenVotes[day][token] += votes;
+    }
+
+    function claimBonus(
+        MintpadBonusPools bonusPools,
+        address user,
+        address token,
+        uint256 startDay,
+        uint256 endDay
+    ) external returns (uint256) {
+        return bonusPools.claimBonus(user, token, startDay, endDay);
+    }
+
+    function getCurrentDay() external view returns (uint256) {
+        return currentDay;
+    }
+}
@@ -4,20 +4,47 @@ import hardhatToolboxViemPlugin from "@nomicfoundation/hardhat-toolbox-viem";
 import { configVariable } from "hardhat/config";
 import "dotenv/config";
 
+// Mintpad exceeds the 24KB contract size limit without the optimizer and the IR pipeline. Every profile uses
+// the same settings for it and the MintpadAdmin module it deploys, so the tests exercise the deployed bytecode
+const MINTPAD_COMPILER = {
+  version: "0.8.30",
+  settings: {
+    viaIR: true,
+    optimizer: {
+      enabled: true,
+      runs: 200
+    }
+  }
+};
+
 const config: HardhatUserConfig = {
   plugins: [hardhatToolboxViemPlugin, hardhatVerify],
   solidity: {
+    // Typed ERC20 instances for tests via viem.getContractAt("IERC20", ...)
+    npmFilesToBuild: ["@openzeppelin/contracts/token/ERC20/IERC20.sol"],
     profiles: {
       default: {
-        version: "0.8.30"
+        compilers: [{ version: "0.8.30" }],
+        overrides: {
+          "contracts/Mintpad.sol": MINTPAD_COMPILER,
+          "contracts/MintpadAdmin.sol": MINTPAD_COMPILER
+        }
       },
       production: {
-        version: "0.8.30",
-        settings: {
-          optimizer: {
-            enabled: true,
-            runs: 20000
+        compilers: [
+          {
+            version: "0.8.30",
+            settings: {
+              optimizer: {
+                enabled: true,
+                runs: 20000
+              }
+            }
           }
+        ],
+        overrides: {
+          "contracts/Mintpad.sol": MINTPAD_COMPILER,
+          "contracts/MintpadAdmin.sol": MINTPAD_COMPILER
         }
       }
     }
@@ -5,8 +5,25 @@ export default buildModule("Mintpad", (m) => {
   const signerAddress = m.getParameter("signerAddress", m.getAccount(0));
   // dailyHuntReward in Wei (TEST: 10 HUNT per day)
   const dailyHuntReward = m.getParameter("dailyHuntReward", 10n * 10n ** 18n);
+  // Mintpad V1 address to migrate state from (zero address for a fresh deployment)
+  const previousMintpad = m.getParameter("previousMintpad", "0x0000000000000000000000000000000000000000");
+  // Day length in seconds (use e.g. 3600 for hourly-epoch rehearsals on testnets)
+  const epochLength = m.getParameter("epochLength", 86400n);
+  // Start of day 0 as a unix timestamp (0 = start of the current epoch, i.e. UTC midnight for daily epochs)
+  const genesisTimestamp = m.getParameter("genesisTimestamp", 0n);
 
-  const mintpad = m.contract("Mintpad", [signerAddress, dailyHuntReward]);
+  const mintpad = m.contract("Mintpad", [
+    signerAddress,
+    dailyHuntReward,
+    previousMintpad,
+    epochLength,
+    genesisTimestamp
+  ]);
+  // Sponsored bonus pools, registered once so claims pay out their bonuses
+  const mintpadBonusPools = m.contract("MintpadBonusPools", [mintpad]);
+  m.call(mintpad, "setBonusPools", [mintpadBonusPools]);
+  // Read-only leaderboard and history views for frontends
+  const mintpadLens = m.contract("MintpadLens", [mintpad]);
 
-  return { mintpad };
+  return { mintpad, mintpadBonusPools, mintpadLens };
 });
@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import MintpadModule from "./Mintpad.js";
+
+// Opt-in: trustless voting points from staked HUNT and Mini Buildings, activated without the signer
+export default buildModule("MintpadStaking", (m) => {
+  const { mintpad } = m.useModule(MintpadModule);
+
+  // Staked HUNT (in Wei) per voting point, voting points per staked Mini Building, and unstake cooldown in seconds
+  const huntPerPoint = m.getParameter("huntPerPoint", 10n ** 18n);
+  const pointsPerBuilding = m.getParameter("pointsPerBuilding", 100n);
+  const unstakeCooldown = m.getParameter("unstakeCooldown", 7n * 86400n);
+
+  const mintpadStaking = m.contract("MintpadStaking", [mintpad, huntPerPoint, pointsPerBuilding, unstakeCooldown]);
+  m.call(mintpad, "setVotingPointSource", [mintpadStaking]);
+
+  return { mintpad, mintpadStaking };
+});
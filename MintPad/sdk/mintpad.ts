@@ -0,0 +1,448 @@
+import { encodeAbiParameters, keccak256 } from "viem";
+import type { Account, Address, Chain, Client, Hex, Transport } from "viem";
+import { getChainId, readContract, signTypedData, writeContract } from "viem/actions";
+
+/**
+ * Mintpad SDK
+ *
+ * Typed viem helpers for Mintpad shared by frontends, the voting-point signer backend and tests:
+ *   - EIP-712 domain and typed data for signed voting points
+ *   - Day numbering that matches the contract's getCurrentDay
+ *   - Wrappers for activating voting points, voting, claiming and reading claimable rewards
+ *   - Vote commitments for commit-reveal days
+ *   - Claim sizing through MCV2_BondPeriphery
+ */
+
+export const BOND_PERIPHERY_ADDRESS: Address = "0x492C412369Db76C9cdD9939e6C521579301473a3";
+
+// MARK: - ABIs
+
+export const mintpadAbi = [
+  {
+    type: "function",
+    name: "getCurrentDay",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "getDeploymentTimestamp",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "EPOCH_LENGTH",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "dailyUserVotingPoint",
+    stateMutability: "view",
+    inputs: [
+      { name: "day", type: "uint256" },
+      { name: "user", type: "address" }
+    ],
+    outputs: [
+      { name: "activated", type: "uint32" },
+      { name: "left", type: "uint32" },
+      { name: "streak", type: "uint32" }
+    ]
+  },
+  {
+    type: "function",
+    name: "getClaimableHunt",
+    stateMutability: "view",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "token", type: "address" }
+    ],
+    outputs: [
+      { name: "totalHuntToClaim", type: "uint256" },
+      { name: "endDay", type: "uint256" }
+    ]
+  },
+  {
+    type: "function",
+    name: "getClaimableHuntMultiple",
+    stateMutability: "view",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "tokens", type: "address[]" }
+    ],
+    outputs: [
+      { name: "huntAmounts", type: "uint256[]" },
+      { name: "endDays", type: "uint256[]" }
+    ]
+  },
+  {
+    type: "function",
+    name: "activateVotingPoint",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "votingPoint", type: "uint32" },
+      { name: "signature", type: "bytes" }
+    ],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "activateVotingPointFromSource",
+    stateMutability: "nonpayable",
+    inputs: [],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "vote",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "voteAmount", type: "uint32" }
+    ],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "commitVotes",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "commitment", type: "bytes32" }],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "revealVotes",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "day", type: "uint256" },
+      { name: "tokens", type: "address[]" },
+      { name: "voteAmounts", type: "uint32[]" },
+      { name: "salt", type: "bytes32" }
+    ],
+    outputs: []
+  },
+  {
+    type: "function",
+    name: "claim",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "tokensToMint", type: "uint256" },
+      { name: "donationBp", type: "uint256" }
+    ],
+    outputs: [{ name: "actualHuntSpent", type: "uint256" }]
+  },
+  {
+    type: "function",
+    name: "claimMax",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "minTokensToMint", type: "uint256" },
+      { name: "donationBp", type: "uint256" }
+    ],
+    outputs: [{ name: "tokensMinted", type: "uint256" }]
+  }
+] as const;
+
+const bondPeripheryAbi = [
+  {
+    type: "function",
+    name: "getTokensForReserve",
+    stateMutability: "view",
+    inputs: [
+      { name: "tokenAddress", type: "address" },
+      { name: "reserveAmount", type: "uint256" },
+      { name: "useCeilDivision", type: "bool" }
+    ],
+    outputs: [
+      { name: "tokensToMint", type: "uint256" },
+      { name: "reserveAddress", type: "address" }
+    ]
+  }
+] as const;
+
+/** Any viem client with a local or JSON-RPC account, e.g. a WalletClient */
+export type MintpadWalletClient = Client<Transport, Chain | undefined, Account>;
+
+// MARK: - EIP-712
+
+export const VOTING_POINT_TYPES = {
+  VotingPoint: [
+    { name: "user", type: "address" },
+    { name: "day", type: "uint256" },
+    { name: "votingPoint", type: "uint32" }
+  ]
+} as const;
+
+export type VotingPointMessage = {
+  user: Address;
+  day: bigint;
+  votingPoint: number;
+};
+
+/**
+ * Returns the EIP-712 domain of a Mintpad deployment
+ */
+export function getMintpadDomain(mintpad: Address, chainId: number) {
+  return {
+    name: "Mintpad",
+    version: "1",
+    chainId,
+    verifyingContract: mintpad
+  } as const;
+}
+
+/**
+ * Signs a VotingPoint allocation that `user` can activate with activateVotingPoint on `day`
+ * @param signer Wallet of an address registered with setSigner
+ */
+export async function signVotingPoint(
+  signer: MintpadWalletClient,
+  mintpad: Address,
+  message: VotingPointMessage
+): Promise<Hex> {
+  return signTypedData(signer, {
+    account: signer.account,
+    domain: getMintpadDomain(mintpad, await getChainId(signer)),
+    types: VOTING_POINT_TYPES,
+    primaryType: "VotingPoint",
+    message
+  });
+}
+
+// MARK: - Commit-reveal
+
+export type VoteReveal = {
+  user: Address;
+  day: bigint;
+  tokens: readonly Address[];
+  voteAmounts: readonly number[];
+  salt: Hex;
+};
+
+/**
+ * Computes the commitment that revealVotes checks the revealed votes against.
+ * Keep the salt secret until the reveal, or the committed votes can be guessed
+ */
+export function getVoteCommitment({ user, day, tokens, voteAmounts, salt }: VoteReveal): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "address" }, { type: "uint256" }, { type: "address[]" }, { type: "uint32[]" }, { type: "bytes32" }],
+      [user, day, tokens, voteAmounts, salt]
+    )
+  );
+}
+
+// MARK: - Days
+
+/**
+ * Computes the Mintpad day for a unix timestamp the same way the contract's getCurrentDay does
+ */
+export function getDayAt(deploymentTimestamp: bigint, epochLength: bigint, timestamp: bigint): bigint {
+  if (timestamp < deploymentTimestamp) throw new Error("timestamp is before day 0");
+  return (timestamp - deploymentTimestamp) / epochLength;
+}
+
+/**
+ * Reads the parameters needed to compute Mintpad days off-chain
+ */
+export async function getDayParams(client: Client, mintpad: Address) {
+  const [deploymentTimestamp, epochLength] = await Promise.all([
+    readContract(client, { address: mintpad, abi: mintpadAbi, functionName: "getDeploymentTimestamp" }),
+    readContract(client, { address: mintpad, abi: mintpadAbi, functionName: "EPOCH_LENGTH" })
+  ]);
+  return { deploymentTimestamp, epochLength };
+}
+
+// MARK: - Reads
+
+export async function getCurrentDay(client: Client, mintpad: Address): Promise<bigint> {
+  return readContract(client, { address: mintpad, abi: mintpadAbi, functionName: "getCurrentDay" });
+}
+
+export async function getVotingPoint(client: Client, mintpad: Address, day: bigint, user: Address) {
+  const [activated, left, streak] = await readContract(client, {
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "dailyUserVotingPoint",
+    args: [day, user]
+  });
+  return { activated, left, streak };
+}
+
+/**
+ * Returns the HUNT a user can claim for a token and the last day the claim covers
+ */
+export async function getClaimableHunt(client: Client, mintpad: Address, user: Address, token: Address) {
+  const [huntAmount, endDay] = await readContract(client, {
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "getClaimableHunt",
+    args: [user, token]
+  });
+  return { huntAmount, endDay };
+}
+
+/**
+ * Returns the claimable HUNT for several tokens in one call, in the order of `tokens`
+ */
+export async function getClaimableHuntMultiple(
+  client: Client,
+  mintpad: Address,
+  user: Address,
+  tokens: readonly Address[]
+) {
+  const [huntAmounts, endDays] = await readContract(client, {
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "getClaimableHuntMultiple",
+    args: [user, tokens]
+  });
+  return tokens.map((token, i) => ({ token, huntAmount: huntAmounts[i], endDay: endDays[i] }));
+}
+
+/**
+ * Returns how many child tokens `huntAmount` mints on the bonding curve, rounding the same way claims do
+ */
+export async function estimateTokenAmount(client: Client, token: Address, huntAmount: bigint): Promise<bigint> {
+  const [tokensToMint] = await readContract(client, {
+    address: BOND_PERIPHERY_ADDRESS,
+    abi: bondPeripheryAbi,
+    functionName: "getTokensForReserve",
+    args: [token, huntAmount, true]
+  });
+  return tokensToMint;
+}
+
+/**
+ * Returns the claimable HUNT for a token and the tokensToMint that spends it, ready to pass to claim
+ */
+export async function estimateClaim(client: Client, mintpad: Address, user: Address, token: Address) {
+  const { huntAmount, endDay } = await getClaimableHunt(client, mintpad, user, token);
+  const tokensToMint = huntAmount === 0n ? 0n : await estimateTokenAmount(client, token, huntAmount);
+  return { huntAmount, endDay, tokensToMint };
+}
+
+// MARK: - Writes
+
+export async function activateVotingPoint(
+  wallet: MintpadWalletClient,
+  mintpad: Address,
+  votingPoint: number,
+  signature: Hex
+): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "activateVotingPoint",
+    args: [votingPoint, signature]
+  });
+}
+
+/**
+ * Activates today's voting points computed on-chain by Mintpad's votingPointSource, without a signature
+ */
+export async function activateVotingPointFromSource(wallet: MintpadWalletClient, mintpad: Address): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "activateVotingPointFromSource"
+  });
+}
+
+export async function vote(
+  wallet: MintpadWalletClient,
+  mintpad: Address,
+  token: Address,
+  voteAmount: number
+): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "vote",
+    args: [token, voteAmount]
+  });
+}
+
+/**
+ * Commits to today's votes on a commit-reveal day (see getVoteCommitment)
+ */
+export async function commitVotes(wallet: MintpadWalletClient, mintpad: Address, commitment: Hex): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "commitVotes",
+    args: [commitment]
+  });
+}
+
+/**
+ * Reveals and casts the votes committed on the previous day. `reveal.user` must be the wallet's account
+ */
+export async function revealVotes(wallet: MintpadWalletClient, mintpad: Address, reveal: VoteReveal): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "revealVotes",
+    args: [reveal.day, reveal.tokens, reveal.voteAmounts, reveal.salt]
+  });
+}
+
+/**
+ * Claims rewards for a token, minting exactly `tokensToMint` (see estimateClaim)
+ * @param donationBp Share of the minted tokens sent to the token's creator (0-10000, where 100 = 1%)
+ */
+export async function claim(
+  wallet: MintpadWalletClient,
+  mintpad: Address,
+  token: Address,
+  tokensToMint: bigint,
+  donationBp = 0n
+): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "claim",
+    args: [token, tokensToMint, donationBp]
+  });
+}
+
+/**
+ * Claims rewards for a token, minting as many tokens as the claimable HUNT buys
+ * @param minTokensToMint Slippage protection: reverts if fewer tokens would be minted.
+ * Derive it from estimateClaim's tokensToMint minus a tolerance; 0 accepts any price
+ * @param donationBp Share of the minted tokens sent to the token's creator (0-10000, where 100 = 1%)
+ */
+export async function claimMax(
+  wallet: MintpadWalletClient,
+  mintpad: Address,
+  token: Address,
+  minTokensToMint: bigint,
+  donationBp = 0n
+): Promise<Hex> {
+  return writeContract(wallet, {
+    account: wallet.account,
+    chain: wallet.chain,
+    address: mintpad,
+    abi: mintpadAbi,
+    functionName: "claimMax",
+    args: [token, minTokensToMint, donationBp]
+  });
+}
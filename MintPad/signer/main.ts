@@ -0,0 +1,40 @@
+import "dotenv/config";
+import { createPublicClient, createWalletClient, http, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { base } from "viem/chains";
+import { SignerService } from "./service.js";
+
+/**
+ * Runs the voting point signer against Base, listening on localhost only
+ *
+ * Environment:
+ *   - RPC_BASE: Base RPC URL
+ *   - ETHERSCAN_API_KEY: not used by the signer, but hardhat.config.ts requires it under `hardhat run`
+ *   - MINTPAD_ADDRESS: Mintpad contract address
+ *   - MINTPAD_SIGNER_PRIVATE_KEY: key of an address registered with Mintpad.setSigner
+ *   - MINTPAD_SIGNER_DAILY_BUDGET: total voting points issued per day
+ *   - MINTPAD_SIGNER_STORE (optional): issuance file path (default: signer-issuances.json)
+ *   - MINTPAD_SIGNER_PORT (optional): port to listen on, bound to localhost (default: 8787)
+ */
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+const transport = http(requireEnv("RPC_BASE"));
+const service = new SignerService({
+  mintpad: requireEnv("MINTPAD_ADDRESS") as Address,
+  publicClient: createPublicClient({ chain: base, transport }),
+  signer: createWalletClient({
+    chain: base,
+    transport,
+    account: privateKeyToAccount(requireEnv("MINTPAD_SIGNER_PRIVATE_KEY") as Hex)
+  }),
+  dailyPointBudget: Number(requireEnv("MINTPAD_SIGNER_DAILY_BUDGET")),
+  storePath: process.env.MINTPAD_SIGNER_STORE ?? "signer-issuances.json"
+});
+
+const port = Number(process.env.MINTPAD_SIGNER_PORT ?? 8787);
+service.createServer().listen(port, "127.0.0.1");
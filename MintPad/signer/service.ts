@@ -0,0 +1,194 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { isAddress, getAddress } from "viem";
+import type { Address, Client, Hex } from "viem";
+import { getBlock } from "viem/actions";
+import { getDayAt, getDayParams, signVotingPoint, type MintpadWalletClient } from "../sdk/mintpad.js";
+
+/**
+ * Mintpad voting point signer
+ *
+ * Issues `VotingPoint(address user,uint256 day,uint32 votingPoint)` signatures for the current Mintpad day:
+ *   - The day is derived from the latest block timestamp exactly like the contract's getCurrentDay
+ *   - Each user gets at most one issuance per day; repeated requests return the stored signature
+ *   - The points issued per day never exceed the configured budget
+ *   - The current day's issuances are persisted to a JSON file so limits survive restarts
+ *
+ * The service has no authentication: anyone who can reach POST /voting-point can mint voting points,
+ * so it must only be reachable from localhost (e.g. by a backend that authenticates users first).
+ *
+ * Endpoints:
+ *   - GET  /day                                   -> { day }
+ *   - GET  /budget                                -> { day, issued, budget }
+ *   - POST /voting-point { user, votingPoint }    -> { user, day, votingPoint, signature }
+ */
+
+export type Issuance = {
+  user: Address;
+  day: string;
+  votingPoint: number;
+  signature: Hex;
+};
+
+type StoreData = {
+  // day => user => issuance
+  issuances: Record<string, Record<string, Issuance>>;
+};
+
+export class SignerError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * JSON file backed record of issued voting points. Writes replace the file atomically
+ */
+export class IssuanceStore {
+  private data: StoreData;
+
+  constructor(private readonly path: string) {
+    this.data = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : { issuances: {} };
+  }
+
+  get(day: bigint, user: Address): Issuance | undefined {
+    return this.data.issuances[day.toString()]?.[user];
+  }
+
+  getIssuedPoints(day: bigint): number {
+    const issuances = this.data.issuances[day.toString()] ?? {};
+    return Object.values(issuances).reduce((total, issuance) => total + issuance.votingPoint, 0);
+  }
+
+  /**
+   * Records an issuance and drops the days before it, which are never read again
+   */
+  add(issuance: Issuance) {
+    for (const day of Object.keys(this.data.issuances)) {
+      if (BigInt(day) < BigInt(issuance.day)) delete this.data.issuances[day];
+    }
+    (this.data.issuances[issuance.day] ??= {})[issuance.user] = issuance;
+
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    renameSync(tempPath, this.path);
+  }
+}
+
+export type SignerServiceConfig = {
+  mintpad: Address;
+  publicClient: Client;
+  signer: MintpadWalletClient;
+  dailyPointBudget: number;
+  storePath: string;
+};
+
+export class SignerService {
+  private readonly store: IssuanceStore;
+  private dayParams?: { deploymentTimestamp: bigint; epochLength: bigint };
+  // Serializes issuance so concurrent requests cannot overspend the budget
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly config: SignerServiceConfig) {
+    if (!Number.isInteger(config.dailyPointBudget) || config.dailyPointBudget <= 0) {
+      throw new Error("dailyPointBudget must be a positive integer");
+    }
+    this.store = new IssuanceStore(config.storePath);
+  }
+
+  async getCurrentDay(): Promise<bigint> {
+    this.dayParams ??= await getDayParams(this.config.publicClient, this.config.mintpad);
+    const { timestamp } = await getBlock(this.config.publicClient);
+    return getDayAt(this.dayParams.deploymentTimestamp, this.dayParams.epochLength, timestamp);
+  }
+
+  async getBudget() {
+    const day = await this.getCurrentDay();
+    return { day, issued: this.store.getIssuedPoints(day), budget: this.config.dailyPointBudget };
+  }
+
+  /**
+   * Issues a signed voting point allocation for the current day, or returns the user's existing one
+   */
+  issue(user: Address, votingPoint: number): Promise<Issuance> {
+    const result = this.queue.then(() => this.issueNow(user, votingPoint));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async issueNow(user: Address, votingPoint: number): Promise<Issuance> {
+    if (typeof user !== "string" || !isAddress(user)) throw new SignerError(400, "invalid user");
+    if (!Number.isInteger(votingPoint) || votingPoint <= 0 || votingPoint > 0xffffffff) {
+      throw new SignerError(400, "invalid votingPoint");
+    }
+
+    user = getAddress(user);
+    const day = await this.getCurrentDay();
+    const existing = this.store.get(day, user);
+    if (existing) return existing;
+
+    if (this.store.getIssuedPoints(day) + votingPoint > this.config.dailyPointBudget) {
+      throw new SignerError(429, "daily budget exhausted");
+    }
+
+    const signature = await signVotingPoint(this.config.signer, this.config.mintpad, { user, day, votingPoint });
+    const issuance = { user, day: day.toString(), votingPoint, signature };
+    this.store.add(issuance);
+    return issuance;
+  }
+
+  /**
+   * Returns an HTTP server exposing the service (not yet listening)
+   */
+  createServer(): Server {
+    return createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const status = error instanceof SignerError ? error.status : 500;
+        sendJson(res, status, { error: status === 500 ? "internal error" : error.message });
+      });
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method === "GET" && pathname === "/day") {
+      sendJson(res, 200, { day: (await this.getCurrentDay()).toString() });
+    } else if (req.method === "GET" && pathname === "/budget") {
+      const { day, issued, budget } = await this.getBudget();
+      sendJson(res, 200, { day: day.toString(), issued, budget });
+    } else if (req.method === "POST" && pathname === "/voting-point") {
+      const { user, votingPoint } = parseVotingPointRequest(await readJson(req));
+      sendJson(res, 200, await this.issue(user, votingPoint));
+    } else {
+      throw new SignerError(404, "not found");
+    }
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > 10_000) throw new SignerError(413, "body too large");
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new SignerError(400, "invalid JSON");
+  }
+}
+
+function parseVotingPointRequest(body: unknown): { user: Address; votingPoint: number } {
+  if (typeof body !== "object" || body === null) throw new SignerError(400, "invalid body");
+
+  const { user, votingPoint } = body as Record<string, unknown>;
+  if (typeof user !== "string" || !isAddress(user)) throw new SignerError(400, "invalid user");
+  if (typeof votingPoint !== "number") throw new SignerError(400, "invalid votingPoint");
+  return { user, votingPoint };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
@@ -1,14 +1,19 @@
 import assert from "node:assert/strict";
 import { describe, it, beforeEach } from "node:test";
 import { network } from "hardhat";
-import { getContract, erc20Abi } from "viem";
+import { getContract, erc20Abi, concat } from "viem";
+import {
+  estimateTokenAmount as sdkEstimateTokenAmount,
+  getVoteCommitment,
+  signVotingPoint as sdkSignVotingPoint
+} from "../sdk/mintpad.js";
 
 // Constants for testing
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 const BOND_ADDRESS = "0xc5a076cad94176c2996B32d8466Be1cE757FAa27";
-const BOND_PERIPHERY_ADDRESS = "0x492C412369Db76C9cdD9939e6C521579301473a3";
 const HUNT_TOKEN = "0x37f0c2915CeCC7e977183B8543Fc0864d03E064C";
 const TEST_TOKEN = "0xDF2B673Ec06d210C8A8Be89441F8de60B5C679c9"; // SIGNET
+const TEST_TOKEN_2 = "0xFf45161474C39cB00699070Dd49582e417b57a7E"; // MT
 const INITIAL_HUNT_BALANCE = 10_000n * 10n ** 18n;
 const DAILY_HUNT_REWARD = 1000n * 10n ** 18n; // 1000 HUNT per day in Wei
 const SECONDS_PER_DAY = 86400n;
@@ -19,29 +24,7 @@ describe("Mintpad", async function () {
   const { impersonateAccount, stopImpersonatingAccount, time } = networkHelpers;
 
   async function estimateTokenAmount(token: `0x${string}`, huntAmount: bigint) {
-    const publicClient = await viem.getPublicClient();
-    const bondPeriphery = getContract({
-      address: BOND_PERIPHERY_ADDRESS,
-      abi: [
-        {
-          name: "getTokensForReserve",
-          type: "function",
-          stateMutability: "view",
-          inputs: [
-            { name: "tokenAddress", type: "address" },
-            { name: "reserveAmount", type: "uint256" },
-            { name: "useCeilDivision", type: "bool" }
-          ],
-          outputs: [
-            { name: "tokensToMint", type: "uint256" },
-            { name: "reserveAddress", type: "address" }
-          ]
-        }
-      ] as const,
-      client: publicClient
-    });
-    const [tokensToMint] = await bondPeriphery.read.getTokensForReserve([token, huntAmount, true]);
-    return tokensToMint;
+    return sdkEstimateTokenAmount(await viem.getPublicClient(), token, huntAmount);
   }
 
   async function signVotingPoint(
@@ -50,45 +33,138 @@ describe("Mintpad", async function () {
     day: bigint,
     votingPoint: number,
     signerWallet: any
+  ) {
+    return sdkSignVotingPoint(signerWallet, mintpadAddress, { user: userAddress, day, votingPoint });
+  }
+
+  async function signVotingPointTopUp(
+    mintpadAddress: `0x${string}`,
+    userAddress: `0x${string}`,
+    day: bigint,
+    votingPoint: number,
+    nonce: bigint,
+    signerWallet: any
   ) {
     const chainId = await signerWallet.getChainId();
 
-    const domain = {
-      name: "Mintpad",
-      version: "1",
-      chainId: chainId,
-      verifyingContract: mintpadAddress
-    };
-
-    const types = {
-      VotingPoint: [
-        { name: "user", type: "address" },
-        { name: "day", type: "uint256" },
-        { name: "votingPoint", type: "uint32" }
-      ]
-    };
-
-    const message = {
-      user: userAddress,
-      day: day,
-      votingPoint: votingPoint
-    };
-
-    const signature = await signerWallet.signTypedData({
-      domain,
-      types,
-      primaryType: "VotingPoint",
-      message
-    });
-
-    return signature;
+    return signerWallet.signTypedData({
+      domain: {
+        name: "Mintpad",
+        version: "1",
+        chainId: chainId,
+        verifyingContract: mintpadAddress
+      },
+      types: {
+        VotingPointTopUp: [
+          { name: "user", type: "address" },
+          { name: "day", type: "uint256" },
+          { name: "votingPoint", type: "uint32" },
+          { name: "nonce", type: "uint256" }
+        ]
+      },
+      primaryType: "VotingPointTopUp",
+      message: {
+        user: userAddress,
+        day,
+        votingPoint,
+        nonce
+      }
+    });
+  }
+
+  async function signVote(
+    mintpadAddress: `0x${string}`,
+    userWallet: any,
+    day: bigint,
+    token: `0x${string}`,
+    amount: number,
+    nonce: bigint,
+    deadline: bigint
+  ) {
+    const chainId = await userWallet.getChainId();
+
+    return userWallet.signTypedData({
+      domain: {
+        name: "Mintpad",
+        version: "1",
+        chainId: chainId,
+        verifyingContract: mintpadAddress
+      },
+      types: {
+        Vote: [
+          { name: "user", type: "address" },
+          { name: "day", type: "uint256" },
+          { name: "token", type: "address" },
+          { name: "amount", type: "uint32" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      },
+      primaryType: "Vote",
+      message: {
+        user: userWallet.account.address,
+        day,
+        token,
+        amount,
+        nonce,
+        deadline
+      }
+    });
+  }
+
+  async function signOperatorApproval(
+    mintpadAddress: `0x${string}`,
+    userWallet: any,
+    operator: `0x${string}`,
+    token: `0x${string}`,
+    approved: boolean,
+    nonce: bigint,
+    deadline: bigint
+  ) {
+    const chainId = await userWallet.getChainId();
+
+    return userWallet.signTypedData({
+      domain: {
+        name: "Mintpad",
+        version: "1",
+        chainId: chainId,
+        verifyingContract: mintpadAddress
+      },
+      types: {
+        OperatorApproval: [
+          { name: "user", type: "address" },
+          { name: "operator", type: "address" },
+          { name: "token", type: "address" },
+          { name: "approved", type: "bool" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      },
+      primaryType: "OperatorApproval",
+      message: {
+        user: userWallet.account.address,
+        operator,
+        token,
+        approved,
+        nonce,
+        deadline
+      }
+    });
   }
 
+  type WalletClient = Awaited<ReturnType<typeof viem.getWalletClients>>[number];
+
   async function deployMintpadFixture() {
     const [owner, signer, alice, bob] = await viem.getWalletClients();
 
     // @ts-ignore - Constructor signature updated
-    const mintpad = await viem.deployContract("Mintpad", [signer.account.address, DAILY_HUNT_REWARD]);
+    const mintpad = await viem.deployContract("Mintpad", [
+      signer.account.address,
+      DAILY_HUNT_REWARD,
+      ZERO_ADDRESS,
+      SECONDS_PER_DAY,
+      0n
+    ]);
 
     // Impersonate an address with enough HUNT balance and transfer HUNT to Mintpad contract
     const impersonatedAddress = "0xCB3f3e0E992435390e686D7b638FCb8baBa6c5c7";
@@ -113,10 +189,10 @@ describe("Mintpad", async function () {
   }
 
   let mintpad: any;
-  let owner: any;
-  let signer: any;
-  let alice: any;
-  let bob: any;
+  let owner: WalletClient;
+  let signer: WalletClient;
+  let alice: WalletClient;
+  let bob: WalletClient;
   let huntToken: any;
   let testToken: any;
 
@@ -126,19 +202,41 @@ describe("Mintpad", async function () {
     ));
   });
 
+  async function activatePoints(user: any, points: number) {
+    const day = await mintpad.read.getCurrentDay();
+    const signature = await signVotingPoint(mintpad.address, user.account.address, day, points, signer);
+    await mintpad.write.activateVotingPoint([points, signature], { account: user.account });
+  }
+
+  async function activateAndVoteFor(user: any, points: number) {
+    await activatePoints(user, points);
+    await mintpad.write.vote([TEST_TOKEN, points], { account: user.account });
+  }
+
   describe("Contract initialization", function () {
     it("should deploy with correct parameters", async function () {
       const bondAddress = await mintpad.read.BOND();
-      const signerAddress = await mintpad.read.signer();
+      const signerCap = await mintpad.read.signerDailyCap([signer.account.address]);
       const dailyHuntReward = await mintpad.read.dailyHuntReward();
       const contractBalance = await huntToken.read.balanceOf([mintpad.address]);
 
       assert.equal(bondAddress.toLowerCase(), BOND_ADDRESS.toLowerCase());
-      assert.equal(signerAddress.toLowerCase(), signer.account.address.toLowerCase());
+      assert.equal(signerCap, 2 ** 32 - 1);
       assert.equal(dailyHuntReward, DAILY_HUNT_REWARD);
       assert.equal(contractBalance, INITIAL_HUNT_BALANCE);
     });
 
+    it("should deploy an admin module that does not share Mintpad's state", async function () {
+      const adminModule = await viem.getContractAt("MintpadAdmin", await mintpad.read.ADMIN_MODULE());
+
+      assert.equal((await adminModule.read.owner()).toLowerCase(), mintpad.address.toLowerCase());
+      assert.equal(await adminModule.read.getCurrentDay(), await mintpad.read.getCurrentDay());
+      await assert.rejects(
+        adminModule.write.setDailyHuntReward([1n], { account: owner.account }),
+        /OwnableUnauthorizedAccount/
+      );
+    });
+
     it("should initialize getCurrentDay to 0", async function () {
       const currentDay = await mintpad.read.getCurrentDay();
       assert.equal(currentDay, 0n);
@@ -147,7 +245,7 @@ describe("Mintpad", async function () {
     it("should revert with zero signer address", async function () {
       await assert.rejects(
         // @ts-ignore - Constructor signature updated
-        viem.deployContract("Mintpad", [ZERO_ADDRESS, DAILY_HUNT_REWARD]),
+        viem.deployContract("Mintpad", [ZERO_ADDRESS, DAILY_HUNT_REWARD, ZERO_ADDRESS, SECONDS_PER_DAY, 0n]),
         /Mintpad__InvalidParams\("zero address"\)/
       );
     });
@@ -155,38 +253,108 @@ describe("Mintpad", async function () {
     it("should revert with zero dailyHuntReward", async function () {
       await assert.rejects(
         // @ts-ignore - Constructor signature updated
-        viem.deployContract("Mintpad", [signer.account.address, 0]),
+        viem.deployContract("Mintpad", [signer.account.address, 0, ZERO_ADDRESS, SECONDS_PER_DAY, 0n]),
         /Mintpad__InvalidParams\("dailyHuntReward cannot be zero"\)/
       );
     });
+
+    it("should revert with zero epochLength", async function () {
+      await assert.rejects(
+        // @ts-ignore - Constructor signature updated
+        viem.deployContract("Mintpad", [signer.account.address, DAILY_HUNT_REWARD, ZERO_ADDRESS, 0n, 0n]),
+        /Mintpad__InvalidParams\("epochLength cannot be zero"\)/
+      );
+    });
+
+    it("should revert with a genesis timestamp in the future", async function () {
+      const genesisTimestamp = BigInt(await time.latest()) + 3600n;
+
+      await assert.rejects(
+        // @ts-ignore - Constructor signature updated
+        viem.deployContract("Mintpad", [
+          signer.account.address,
+          DAILY_HUNT_REWARD,
+          ZERO_ADDRESS,
+          SECONDS_PER_DAY,
+          genesisTimestamp
+        ]),
+        /Mintpad__InvalidParams\("genesisTimestamp in the future"\)/
+      );
+    });
   }); // Contract initialization
 
   describe("Admin functions", function () {
-    describe("updateSignerAddress", function () {
-      it("should allow owner to update signer address", async function () {
-        const newSigner = bob.account.address;
+    describe("setSigner", function () {
+      it("should allow owner to add a signer with a daily cap", async function () {
+        const tx = mintpad.write.setSigner([bob.account.address, 5000], { account: owner.account });
+        await viem.assertions.emit(tx, mintpad, "SignerUpdated");
 
-        const tx = mintpad.write.updateSignerAddress([newSigner], { account: owner.account });
-        await viem.assertions.emit(tx, mintpad, "SignerAddressUpdated");
-
-        const updatedSigner = await mintpad.read.signer();
-        assert.equal(updatedSigner.toLowerCase(), newSigner.toLowerCase());
+        const cap = await mintpad.read.signerDailyCap([bob.account.address]);
+        assert.equal(cap, 5000);
       });
 
       it("should revert when non-owner tries to update", async function () {
         await assert.rejects(
-          mintpad.write.updateSignerAddress([bob.account.address], { account: alice.account }),
+          mintpad.write.setSigner([bob.account.address, 5000], { account: alice.account }),
           /OwnableUnauthorizedAccount/
         );
       });
 
       it("should revert with zero address", async function () {
         await assert.rejects(
-          mintpad.write.updateSignerAddress([ZERO_ADDRESS], { account: owner.account }),
+          mintpad.write.setSigner([ZERO_ADDRESS, 5000], { account: owner.account }),
           /Mintpad__InvalidParams\("zero address"\)/
         );
       });
-    }); // updateSignerAddress
+    }); // setSigner
+
+    describe("revokeSigner", function () {
+      it("should allow owner to revoke a signer", async function () {
+        const tx = mintpad.write.revokeSigner([signer.account.address], { account: owner.account });
+        await viem.assertions.emit(tx, mintpad, "SignerUpdated");
+
+        const cap = await mintpad.read.signerDailyCap([signer.account.address]);
+        assert.equal(cap, 0);
+      });
+
+      it("should allow a signer to revoke itself", async function () {
+        await mintpad.write.revokeSigner([signer.account.address], { account: signer.account });
+
+        const cap = await mintpad.read.signerDailyCap([signer.account.address]);
+        assert.equal(cap, 0);
+      });
+
+      it("should revert when called by others", async function () {
+        await assert.rejects(
+          mintpad.write.revokeSigner([signer.account.address], { account: alice.account }),
+          /OwnableUnauthorizedAccount/
+        );
+      });
+    }); // revokeSigner
+
+    describe("setLargeAllocationPolicy", function () {
+      it("should allow owner to set the co-signing policy", async function () {
+        const tx = mintpad.write.setLargeAllocationPolicy([1000, 2], { account: owner.account });
+        await viem.assertions.emit(tx, mintpad, "LargeAllocationPolicyUpdated");
+
+        assert.equal(await mintpad.read.largeAllocationThreshold(), 1000);
+        assert.equal(await mintpad.read.largeAllocationSignatures(), 2);
+      });
+
+      it("should revert with zero required signatures", async function () {
+        await assert.rejects(
+          mintpad.write.setLargeAllocationPolicy([1000, 0], { account: owner.account }),
+          /Mintpad__InvalidParams\("requiredSignatures cannot be zero"\)/
+        );
+      });
+
+      it("should revert when non-owner tries to update", async function () {
+        await assert.rejects(
+          mintpad.write.setLargeAllocationPolicy([1000, 2], { account: alice.account }),
+          /OwnableUnauthorizedAccount/
+        );
+      });
+    }); // setLargeAllocationPolicy
 
     describe("setDailyHuntReward", function () {
       it("should allow owner to set daily hunt reward", async function () {
@@ -199,6 +367,16 @@ describe("Mintpad", async function () {
         assert.equal(updatedReward, newReward);
       });
 
+      it("should keep today's reward and apply the new one from the next day", async function () {
+        const newReward = 2000n * 10n ** 18n;
+        const day = await mintpad.read.getCurrentDay();
+
+        await mintpad.write.setDailyHuntReward([newReward], { account: owner.account });
+
+        assert.equal(await mintpad.read.getDailyHuntReward([day]), DAILY_HUNT_REWARD);
+        assert.equal(await mintpad.read.getDailyHuntReward([day + 1n]), newReward);
+      });
+
       it("should revert when non-owner tries to update", async function () {
         await assert.rejects(
           mintpad.write.setDailyHuntReward([2000n * 10n ** 18n], { account: alice.account }),
@@ -212,6 +390,33 @@ describe("Mintpad", async function () {
           /Mintpad__InvalidParams\("dailyHuntReward cannot be zero"\)/
         );
       });
+
+      it("should record the reward schedule per day", async function () {
+        const newReward = 2000n * 10n ** 18n;
+
+        await time.increase(Number(SECONDS_PER_DAY * 3n));
+        await mintpad.write.setDailyHuntReward([newReward], { account: owner.account });
+
+        assert.equal(await mintpad.read.getDailyHuntReward([0n]), DAILY_HUNT_REWARD);
+        assert.equal(await mintpad.read.getDailyHuntReward([3n]), DAILY_HUNT_REWARD);
+        assert.equal(await mintpad.read.getDailyHuntReward([4n]), newReward);
+        assert.equal(await mintpad.read.getDailyHuntReward([10n]), newReward);
+
+        const [fromDays, rewards] = await mintpad.read.getDailyHuntRewardHistory();
+        assert.deepEqual(fromDays, [0n, 4n]);
+        assert.deepEqual(rewards, [DAILY_HUNT_REWARD, newReward]);
+      });
+
+      it("should keep only the last value when updated multiple times on the same day", async function () {
+        await time.increase(Number(SECONDS_PER_DAY));
+        await mintpad.write.setDailyHuntReward([2000n * 10n ** 18n], { account: owner.account });
+        await mintpad.write.setDailyHuntReward([3000n * 10n ** 18n], { account: owner.account });
+
+        const [fromDays, rewards] = await mintpad.read.getDailyHuntRewardHistory();
+        assert.deepEqual(fromDays, [0n, 2n]);
+        assert.deepEqual(rewards, [DAILY_HUNT_REWARD, 3000n * 10n ** 18n]);
+        assert.equal(await mintpad.read.getDailyHuntReward([2n]), 3000n * 10n ** 18n);
+      });
     }); // setDailyHuntReward
 
     describe("refundHUNT", function () {
@@ -249,9 +454,173 @@ describe("Mintpad", async function () {
           /Mintpad__InvalidParams\("insufficient balance"\)/
         );
       });
+
+      it("should not refund HUNT owed to voters", async function () {
+        // Day 0: Alice votes, so today's 1000 HUNT reward is owed
+        const day = await mintpad.read.getCurrentDay();
+        const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+        await mintpad.write.activateAndVote([1000, signature, [TEST_TOKEN], [500]], { account: alice.account });
+
+        assert.equal(await mintpad.read.getOutstandingHunt(), DAILY_HUNT_REWARD);
+        assert.equal(await mintpad.read.getAvailableHunt(), INITIAL_HUNT_BALANCE - DAILY_HUNT_REWARD);
+
+        await assert.rejects(
+          mintpad.write.refundHUNT([INITIAL_HUNT_BALANCE - DAILY_HUNT_REWARD + 1n], { account: owner.account }),
+          /Mintpad__InvalidParams\("amount exceeds unobligated balance"\)/
+        );
+        await mintpad.write.refundHUNT([INITIAL_HUNT_BALANCE - DAILY_HUNT_REWARD], { account: owner.account });
+      });
+
+      it("should emit LowRunway when the balance drops below the runway threshold", async function () {
+        // Threshold: 7 days * 1000 HUNT = 7000 HUNT
+        await mintpad.write.refundHUNT([3_000n * 10n ** 18n], { account: owner.account });
+
+        const tx = mintpad.write.refundHUNT([1n], { account: owner.account });
+        await viem.assertions.emit(tx, mintpad, "LowRunway");
+      });
     }); // refundHUNT
+
+    describe("setRunwayAlertDays", function () {
+      it("should allow owner to set runway alert days", async function () {
+        const tx = mintpad.write.setRunwayAlertDays([14n], { account: owner.account });
+        await viem.assertions.emit(tx, mintpad, "RunwayAlertDaysUpdated");
+        assert.equal(await mintpad.read.runwayAlertDays(), 14n);
+      });
+
+      it("should revert when non-owner tries to update", async function () {
+        await assert.rejects(
+          mintpad.write.setRunwayAlertDays([14n], { account: alice.account }),
+          /OwnableUnauthorizedAccount/
+        );
+      });
+    }); // setRunwayAlertDays
   }); // Admin functions
 
+  describe("Signer set", function () {
+    let signer2: any;
+
+    beforeEach(async function () {
+      [, , , , signer2] = await viem.getWalletClients();
+      await mintpad.write.setSigner([signer2.account.address, 1500], { account: owner.account });
+    });
+
+    async function coSign(day: bigint, user: `0x${string}`, votingPoint: number) {
+      const signers = [signer, signer2].sort((a, b) =>
+        a.account.address.toLowerCase() < b.account.address.toLowerCase() ? -1 : 1
+      );
+      const signatures: `0x${string}`[] = [];
+      for (const wallet of signers) {
+        signatures.push(await signVotingPoint(mintpad.address, user, day, votingPoint, wallet));
+      }
+      return { signatures, combined: concat(signatures) };
+    }
+
+    it("should accept activations from any authorized signer", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer2);
+
+      await mintpad.write.activateVotingPoint([1000, signature], { account: alice.account });
+
+      const issued = await mintpad.read.dailySignerIssued([day, signer2.account.address]);
+      assert.equal(issued, 1000);
+    });
+
+    it("should revert when a signer exceeds its daily cap", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const sigAlice = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer2);
+      const sigBob = await signVotingPoint(mintpad.address, bob.account.address, day, 1000, signer2);
+
+      await mintpad.write.activateVotingPoint([1000, sigAlice], { account: alice.account });
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, sigBob], { account: bob.account }),
+        /Mintpad__SignerCapExceeded/
+      );
+    });
+
+    it("should revert without underflow when a cap is lowered below today's issuance", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const sigAlice = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer2);
+      const sigBob = await signVotingPoint(mintpad.address, bob.account.address, day, 1, signer2);
+
+      await mintpad.write.activateVotingPoint([1000, sigAlice], { account: alice.account });
+      await mintpad.write.setSigner([signer2.account.address, 500], { account: owner.account });
+
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1, sigBob], { account: bob.account }),
+        /Mintpad__SignerCapExceeded/
+      );
+    });
+
+    it("should reset signer caps on the next day", async function () {
+      const day0 = await mintpad.read.getCurrentDay();
+      const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1500, signer2);
+      await mintpad.write.activateVotingPoint([1500, sig0], { account: alice.account });
+
+      await time.increase(Number(SECONDS_PER_DAY));
+      const day1 = await mintpad.read.getCurrentDay();
+      const sig1 = await signVotingPoint(mintpad.address, alice.account.address, day1, 1500, signer2);
+      await mintpad.write.activateVotingPoint([1500, sig1], { account: alice.account });
+
+      const issued = await mintpad.read.dailySignerIssued([day1, signer2.account.address]);
+      assert.equal(issued, 1500);
+    });
+
+    it("should reject signatures from a revoked signer immediately", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer2);
+
+      await mintpad.write.revokeSigner([signer2.account.address], { account: owner.account });
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, signature], { account: alice.account }),
+        /Mintpad__InvalidSignature/
+      );
+    });
+
+    it("should require co-signatures for large allocations", async function () {
+      await mintpad.write.setLargeAllocationPolicy([500, 2], { account: owner.account });
+      const day = await mintpad.read.getCurrentDay();
+
+      const single = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, single], { account: alice.account }),
+        /Mintpad__NotEnoughSignatures/
+      );
+
+      const { combined } = await coSign(day, alice.account.address, 1000);
+      await mintpad.write.activateVotingPoint([1000, combined], { account: alice.account });
+
+      const alicePoints = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      assert.equal(alicePoints[0], 1000);
+      assert.equal(await mintpad.read.dailySignerIssued([day, signer.account.address]), 1000);
+      assert.equal(await mintpad.read.dailySignerIssued([day, signer2.account.address]), 1000);
+    });
+
+    it("should allow small allocations with a single signature under the co-signing policy", async function () {
+      await mintpad.write.setLargeAllocationPolicy([500, 2], { account: owner.account });
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 500, signer);
+
+      await mintpad.write.activateVotingPoint([500, signature], { account: alice.account });
+    });
+
+    it("should revert with duplicate or unordered co-signatures", async function () {
+      await mintpad.write.setLargeAllocationPolicy([500, 2], { account: owner.account });
+      const day = await mintpad.read.getCurrentDay();
+
+      const single = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, concat([single, single])], { account: alice.account }),
+        /Mintpad__InvalidSignature/
+      );
+
+      const { signatures } = await coSign(day, alice.account.address, 1000);
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, concat([signatures[1], signatures[0]])], { account: alice.account }),
+        /Mintpad__InvalidSignature/
+      );
+    });
+  }); // Signer set
+
   describe("activateVotingPoint", function () {
     it("should activate voting points with valid signature", async function () {
       const votingPoint = 1000;
@@ -327,12 +696,6 @@ describe("Mintpad", async function () {
   }); // activateVotingPoint
 
   describe("vote", function () {
-    async function activatePoints(user: any, points: number) {
-      const day = await mintpad.read.getCurrentDay();
-      const signature = await signVotingPoint(mintpad.address, user.account.address, day, points, signer);
-      await mintpad.write.activateVotingPoint([points, signature], { account: user.account });
-    }
-
     it("should allow voting with activated points", async function () {
       await activatePoints(alice, 1000);
 
@@ -405,395 +768,2602 @@ describe("Mintpad", async function () {
     });
   }); // vote
 
-  describe("claim", function () {
-    async function setupVotingScenario() {
-      // Day 0: Alice votes 800 points
-      const day0 = await mintpad.read.getCurrentDay();
-      const sig0Alice = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
-      await mintpad.write.activateVotingPoint([1000, sig0Alice], { account: alice.account });
+  describe("topUpVotingPoint", function () {
+    it("should add voting points to an activated user", async function () {
+      await activatePoints(alice, 1000);
       await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
 
-      // Move to Day 1
-      await time.increase(Number(SECONDS_PER_DAY));
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPointTopUp(mintpad.address, alice.account.address, day, 500, 0n, signer);
 
-      // Day 1: Alice votes 600, Bob votes 400
-      const day1 = await mintpad.read.getCurrentDay();
-      const sig1Alice = await signVotingPoint(mintpad.address, alice.account.address, day1, 1000, signer);
-      const sig1Bob = await signVotingPoint(mintpad.address, bob.account.address, day1, 500, signer);
-      await mintpad.write.activateVotingPoint([1000, sig1Alice], { account: alice.account });
-      await mintpad.write.activateVotingPoint([500, sig1Bob], { account: bob.account });
-      await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
-      await mintpad.write.vote([TEST_TOKEN, 400], { account: bob.account });
+      const tx = mintpad.write.topUpVotingPoint([alice.account.address, 500, 0n, signature], {
+        account: bob.account
+      });
+      await viem.assertions.emit(tx, mintpad, "VotingPointToppedUp");
 
-      // Move to Day 2 (claims can be made for Day 0 and Day 1)
-      await time.increase(Number(SECONDS_PER_DAY));
+      const alicePoints = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      const stats = await mintpad.read.dailyStats([day]);
 
-      return { day0, day1 };
-    }
+      assert.equal(alicePoints[0], 1500); // activated
+      assert.equal(alicePoints[1], 700); // left
+      assert.equal(stats[0], 1500); // totalVotingPointGiven
+      assert.equal(await mintpad.read.topUpNonces([alice.account.address]), 1n);
+    });
 
-    it("should allow claiming rewards", async function () {
-      await setupVotingScenario();
+    it("should allow multiple top-ups with increasing nonces", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
 
-      // Alice should get: Day 0: 800/800 * 1000 = 1000 HUNT, Day 1: 600/1000 * 1000 = 600 HUNT
-      // Total: 1600 HUNT
-      const [claimableHunt, endDay] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const sig0 = await signVotingPointTopUp(mintpad.address, alice.account.address, day, 100, 0n, signer);
+      await mintpad.write.topUpVotingPoint([alice.account.address, 100, 0n, sig0], { account: alice.account });
+      const sig1 = await signVotingPointTopUp(mintpad.address, alice.account.address, day, 100, 1n, signer);
+      await mintpad.write.topUpVotingPoint([alice.account.address, 100, 1n, sig1], { account: alice.account });
 
-      // Day 0: 800/800 * 1000 = 1000 HUNT
-      // Day 1: 600/1000 * 1000 = 600 HUNT
-      // Total = 1600 HUNT
-      const expectedHunt = 1600n * 10n ** 18n;
-      assert.equal(claimableHunt, expectedHunt);
-      assert.equal(endDay, 1n);
+      const alicePoints = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      assert.equal(alicePoints[0], 1200);
+    });
 
-      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
-      const initialBalance = await testToken.read.balanceOf([alice.account.address]);
+    it("should revert when replaying a top-up", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPointTopUp(mintpad.address, alice.account.address, day, 100, 0n, signer);
 
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+      await mintpad.write.topUpVotingPoint([alice.account.address, 100, 0n, signature], { account: alice.account });
+      await assert.rejects(
+        mintpad.write.topUpVotingPoint([alice.account.address, 100, 0n, signature], { account: alice.account }),
+        /Mintpad__InvalidParams\("nonce"\)/
+      );
+    });
 
-      const finalBalance = await testToken.read.balanceOf([alice.account.address]);
-      assert.equal(finalBalance, initialBalance + tokensToMint);
+    it("should revert before activation", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPointTopUp(mintpad.address, alice.account.address, day, 100, 0n, signer);
 
-      const lastClaimDay = await mintpad.read.userTokenLastClaimDay([alice.account.address, TEST_TOKEN]);
-      assert.equal(lastClaimDay, 1n);
+      await assert.rejects(
+        mintpad.write.topUpVotingPoint([alice.account.address, 100, 0n, signature], { account: alice.account }),
+        /Mintpad__NotActivated/
+      );
     });
 
-    it("should handle donations correctly", async function () {
-      await setupVotingScenario();
+    it("should revert with an activation signature", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 100, signer);
 
-      const donationBp = 1000n; // 10%
-      const [claimableHunt] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN]);
-      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      await assert.rejects(
+        mintpad.write.topUpVotingPoint([alice.account.address, 100, 0n, signature], { account: alice.account }),
+        /Mintpad__InvalidSignature/
+      );
+    });
 
-      const publicClient = await viem.getPublicClient();
-      const bondContract = getContract({
-        address: BOND_ADDRESS,
-        abi: [
-          {
-            name: "tokenBond",
-            type: "function",
-            stateMutability: "view",
-            inputs: [{ name: "token", type: "address" }],
-            outputs: [
-              { name: "creator", type: "address" },
-              { name: "mintRoyalty", type: "uint16" },
-              { name: "burnRoyalty", type: "uint16" },
-              { name: "createdAt", type: "uint40" },
-              { name: "reserveToken", type: "address" },
-              { name: "reserveBalance", type: "uint256" }
-            ]
-          }
-        ],
-        client: publicClient
-      });
+    it("should apply the co-signing policy to the topped-up total", async function () {
+      await activatePoints(alice, 1000);
+      await mintpad.write.setLargeAllocationPolicy([1000, 2], { account: owner.account });
 
-      const [tokenCreator] = await bondContract.read.tokenBond([TEST_TOKEN]);
-      const initialCreatorBalance = await testToken.read.balanceOf([tokenCreator]);
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPointTopUp(mintpad.address, alice.account.address, day, 1, 0n, signer);
+
+      await assert.rejects(
+        mintpad.write.topUpVotingPoint([alice.account.address, 1, 0n, signature], { account: alice.account }),
+        /Mintpad__NotEnoughSignatures/
+      );
+    });
+  }); // topUpVotingPoint
+
+  describe("reallocateVote", function () {
+    beforeEach(async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, signature], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+    });
+
+    it("should move votes between tokens on the same day", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const statsBefore = await mintpad.read.dailyStats([day]);
+
+      const tx = mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN_2, 200], { account: alice.account });
+      await viem.assertions.emit(tx, mintpad, "VoteReallocated");
+
+      const fromVotes = await mintpad.read.dailyUserTokenVotes([day, alice.account.address, TEST_TOKEN]);
+      const toVotes = await mintpad.read.dailyUserTokenVotes([day, alice.account.address, TEST_TOKEN_2]);
+      const alicePoints = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      const statsAfter = await mintpad.read.dailyStats([day]);
+
+      assert.equal(fromVotes, 400);
+      assert.equal(toVotes, 200);
+      assert.equal(alicePoints[1], 400); // left is unchanged
+      assert.deepEqual(statsAfter, statsBefore);
+    });
+
+    it("should revert when moving more votes than cast", async function () {
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN_2, 601], { account: alice.account }),
+        /Mintpad__InsufficientVotingPoints/
+      );
+    });
+
+    it("should revert with the same token or zero amount", async function () {
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN, 100], { account: alice.account }),
+        /Mintpad__InvalidParams\("same token"\)/
+      );
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN_2, 0], { account: alice.account }),
+        /Mintpad__InvalidParams\("amount"\)/
+      );
+    });
+
+    it("should revert when moving votes to an invalid token", async function () {
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, HUNT_TOKEN, 100], { account: alice.account }),
+        /Mintpad__InvalidParams\("not HUNT child token"\)/
+      );
+    });
+
+    it("should not move votes from previous days", async function () {
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN_2, 100], { account: alice.account }),
+        /Mintpad__InsufficientVotingPoints/
+      );
+    });
+  }); // reallocateVote
+
+  describe("Token curation", function () {
+    it("should block votes for denylisted tokens", async function () {
+      await activatePoints(alice, 1000);
+
+      const tx = mintpad.write.setTokenDenied([TEST_TOKEN, true], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "TokenDenylistUpdated");
+
+      await assert.rejects(
+        mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account }),
+        /Mintpad__TokenNotAllowed/
+      );
+      await assert.rejects(
+        mintpad.write.voteMultiple(
+          [
+            [TEST_TOKEN_2, TEST_TOKEN],
+            [100, 100]
+          ],
+          { account: alice.account }
+        ),
+        /Mintpad__TokenNotAllowed/
+      );
+
+      await mintpad.write.setTokenDenied([TEST_TOKEN, false], { account: owner.account });
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+    });
+
+    it("should only accept allowlisted tokens in allowlist-only mode", async function () {
+      await activatePoints(alice, 1000);
+
+      const tx = mintpad.write.setAllowlistOnly([true], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "AllowlistOnlyUpdated");
+
+      await assert.rejects(
+        mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account }),
+        /Mintpad__TokenNotAllowed/
+      );
+
+      const allowTx = mintpad.write.setTokenAllowed([TEST_TOKEN, true], { account: owner.account });
+      await viem.assertions.emit(allowTx, mintpad, "TokenAllowlistUpdated");
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+    });
+
+    it("should void a denylisted token's votes for the current day", async function () {
+      await activatePoints(alice, 1000);
+      await activatePoints(bob, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 500], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 500], { account: bob.account });
+
+      const day = await mintpad.read.getCurrentDay();
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), 500);
+
+      await mintpad.write.setTokenDenied([TEST_TOKEN, true], { account: owner.account });
+      const tx = mintpad.write.voidTokenVotes([TEST_TOKEN], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "TokenVotesVoided");
+
+      const stats = await mintpad.read.dailyStats([day]);
+      assert.equal(stats[1], 500); // totalVotingPointSpent excludes voided votes
+      assert.equal(await mintpad.read.dailyTokenVoided([day, TEST_TOKEN]), true);
+
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      // Alice's votes earn nothing, Bob gets the whole pool
+      const [aliceClaimable] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const [bobClaimable] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN_2]);
+      assert.equal(aliceClaimable, 0n);
+      assert.equal(bobClaimable, DAILY_HUNT_REWARD);
+    });
+
+    it("should not move votes out of or into a voided token", async function () {
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 500], { account: alice.account });
+      await mintpad.write.setTokenDenied([TEST_TOKEN, true], { account: owner.account });
+      await mintpad.write.voidTokenVotes([TEST_TOKEN], { account: owner.account });
+
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN_2, 100], { account: alice.account }),
+        /Mintpad__TokenNotAllowed/
+      );
+
+      // Lifting the denylist does not bring voided votes back for the day
+      await mintpad.write.setTokenDenied([TEST_TOKEN, false], { account: owner.account });
+      await assert.rejects(
+        mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account }),
+        /Mintpad__TokenNotAllowed/
+      );
+    });
+
+    it("should revert voiding a token that is not denylisted or already voided", async function () {
+      await assert.rejects(
+        mintpad.write.voidTokenVotes([TEST_TOKEN], { account: owner.account }),
+        /Mintpad__InvalidParams\("token not denied"\)/
+      );
+
+      await mintpad.write.setTokenDenied([TEST_TOKEN, true], { account: owner.account });
+      await mintpad.write.voidTokenVotes([TEST_TOKEN], { account: owner.account });
+      await assert.rejects(
+        mintpad.write.voidTokenVotes([TEST_TOKEN], { account: owner.account }),
+        /Mintpad__InvalidParams\("already voided"\)/
+      );
+    });
+
+    it("should revert when non-owner manages curation", async function () {
+      await assert.rejects(
+        mintpad.write.setTokenDenied([TEST_TOKEN, true], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+      await assert.rejects(
+        mintpad.write.setTokenAllowed([TEST_TOKEN, true], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+      await assert.rejects(
+        mintpad.write.setAllowlistOnly([true], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+      await assert.rejects(
+        mintpad.write.voidTokenVotes([TEST_TOKEN], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+    });
+  }); // Token curation
+
+  describe("Reward mode", function () {
+    it("should only apply a new reward mode from the next day", async function () {
+      const day = await mintpad.read.getCurrentDay();
+
+      const tx = mintpad.write.setRewardMode([500, true], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "RewardModeUpdated");
+
+      assert.deepEqual(await mintpad.read.getRewardMode([day]), [0, false]);
+      assert.deepEqual(await mintpad.read.getRewardMode([day + 1n]), [500, true]);
+    });
+
+    it("should keep linear rewards on the day the mode is changed", async function () {
+      await activateAndVoteFor(alice, 900);
+      await activateAndVoteFor(bob, 100);
+      await mintpad.write.setRewardMode([0, true], { account: owner.account });
+
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const [aliceClaimable] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(aliceClaimable, (DAILY_HUNT_REWARD * 9n) / 10n);
+    });
+
+    it("should cap votes per user per token", async function () {
+      await mintpad.write.setRewardMode([500, false], { account: owner.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      await activateAndVoteFor(alice, 1000);
+      await activateAndVoteFor(bob, 500);
+
+      const day = await mintpad.read.getCurrentDay();
+      assert.equal(await mintpad.read.dailyTotalVoteWeight([day]), 1000n);
+
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const [aliceClaimable] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const [bobClaimable] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN]);
+      assert.equal(aliceClaimable, DAILY_HUNT_REWARD / 2n);
+      assert.equal(bobClaimable, DAILY_HUNT_REWARD / 2n);
+    });
+
+    it("should weight votes quadratically", async function () {
+      await mintpad.write.setRewardMode([0, true], { account: owner.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      await activateAndVoteFor(alice, 900);
+      await activateAndVoteFor(bob, 100);
+
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      // sqrt(900) : sqrt(100) = 3 : 1
+      const [aliceClaimable] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const [bobClaimable] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN]);
+      assert.equal(aliceClaimable, (DAILY_HUNT_REWARD * 3n) / 4n);
+      assert.equal(bobClaimable, DAILY_HUNT_REWARD / 4n);
+    });
+
+    it("should keep weights consistent when votes are reallocated", async function () {
+      await mintpad.write.setRewardMode([0, true], { account: owner.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      await activateAndVoteFor(alice, 900);
+      await mintpad.write.reallocateVote([TEST_TOKEN, TEST_TOKEN_2, 800], { account: alice.account });
+
+      // sqrt(100) + sqrt(800), scaled by 1e6
+      const day = await mintpad.read.getCurrentDay();
+      const tokenWeight = await mintpad.read.dailyTokenVoteWeight([day, TEST_TOKEN]);
+      const token2Weight = await mintpad.read.dailyTokenVoteWeight([day, TEST_TOKEN_2]);
+      assert.equal(tokenWeight, 10_000_000n);
+      assert.equal(await mintpad.read.dailyTotalVoteWeight([day]), tokenWeight + token2Weight);
+    });
+
+    it("should revert when non-owner sets the reward mode", async function () {
+      await assert.rejects(
+        mintpad.write.setRewardMode([500, true], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+    });
+  }); // Reward mode
+
+  describe("Voting streaks", function () {
+    let mintpadLens: any;
+
+    beforeEach(async function () {
+      mintpadLens = await viem.deployContract("MintpadLens", [mintpad.address]);
+    });
+
+    it("should count consecutive voting days and reset after a missed day", async function () {
+      await activateAndVoteFor(alice, 100);
+      await time.increase(Number(SECONDS_PER_DAY));
+      await activateAndVoteFor(alice, 50);
+
+      // Voting again on the same day does not extend the streak
+      await mintpad.write.vote([TEST_TOKEN_2, 50], { account: alice.account });
+      assert.deepEqual(await mintpad.read.userVoteStreaks([alice.account.address]), [1, 2]);
+      assert.equal((await mintpad.read.dailyUserVotingPoint([1n, alice.account.address]))[2], 2);
+
+      // Day 2: the streak is still alive until Alice misses a day
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.deepEqual(await mintpadLens.read.getVoteStreak([alice.account.address]), [2n, 10000n]);
+
+      // Day 4: day 3 was missed
+      await time.increase(Number(SECONDS_PER_DAY * 2n));
+      assert.deepEqual(await mintpadLens.read.getVoteStreak([alice.account.address]), [0n, 10000n]);
+      await activateAndVoteFor(alice, 100);
+      assert.deepEqual(await mintpad.read.userVoteStreaks([alice.account.address]), [4, 1]);
+    });
+
+    it("should only apply new streak multipliers from the next day", async function () {
+      const day = await mintpad.read.getCurrentDay();
+
+      const tx = mintpad.write.setStreakMultiplier([1000, 15000], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "StreakMultiplierUpdated");
+
+      assert.deepEqual(await mintpad.read.getStreakMultiplierConfig([day]), [0, 0]);
+      assert.deepEqual(await mintpad.read.getStreakMultiplierConfig([day + 1n]), [1000, 15000]);
+      assert.equal(await mintpad.read.getStreakMultiplier([day + 1n, 1n]), 10000n);
+      assert.equal(await mintpad.read.getStreakMultiplier([day + 1n, 3n]), 12000n);
+      assert.equal(await mintpad.read.getStreakMultiplier([day + 1n, 30n]), 15000n); // capped
+    });
+
+    it("should weight rewards by the streak multiplier", async function () {
+      // +10% per consecutive day, up to 1.5x
+      await mintpad.write.setStreakMultiplier([1000, 15000], { account: owner.account });
+
+      // Day 0: Alice starts her streak
+      await activateAndVoteFor(alice, 100);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      // Day 1: Alice (streak 2, 1.1x) and Bob (streak 1, 1x) vote the same amount
+      assert.deepEqual(await mintpadLens.read.getVoteStreak([alice.account.address]), [1n, 11000n]);
+      await activateAndVoteFor(alice, 1000);
+      await activateAndVoteFor(bob, 1000);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      assert.equal(
+        await mintpad.read.getUserDailyReward([1n, alice.account.address, TEST_TOKEN]),
+        (DAILY_HUNT_REWARD * 11n) / 21n
+      );
+      assert.equal(
+        await mintpad.read.getUserDailyReward([1n, bob.account.address, TEST_TOKEN]),
+        (DAILY_HUNT_REWARD * 10n) / 21n
+      );
+      // The multipliers reshape the split without exceeding the day's reward pool
+      assert.equal(await mintpadLens.read.getTokenDailyReward([1n, TEST_TOKEN]), DAILY_HUNT_REWARD);
+
+      // Day 0 was linear, so Alice's claim adds her full day 0 reward
+      const [aliceClaimable] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(aliceClaimable, DAILY_HUNT_REWARD + (DAILY_HUNT_REWARD * 11n) / 21n);
+    });
+
+    it("should revert on invalid streak multipliers", async function () {
+      await assert.rejects(
+        mintpad.write.setStreakMultiplier([1000, 10000], { account: owner.account }),
+        /Mintpad__InvalidParams\("invalid maxMultiplierBp"\)/
+      );
+      await assert.rejects(
+        mintpad.write.setStreakMultiplier([1000, 50001], { account: owner.account }),
+        /Mintpad__InvalidParams\("invalid maxMultiplierBp"\)/
+      );
+      await assert.rejects(
+        mintpad.write.setStreakMultiplier([1000, 15000], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+
+      // Turning streaks off does not need a cap
+      await mintpad.write.setStreakMultiplier([0, 0], { account: owner.account });
+    });
+  }); // Voting streaks
+
+  describe("Commit-reveal voting", function () {
+    const SALT = `0x${"11".repeat(32)}` as const;
+
+    async function commitFor(user: any, tokens: `0x${string}`[], voteAmounts: number[]) {
+      const day = await mintpad.read.getCurrentDay();
+      const commitment = getVoteCommitment({ user: user.account.address, day, tokens, voteAmounts, salt: SALT });
+      const tx = mintpad.write.commitVotes([commitment], { account: user.account });
+      await viem.assertions.emitWithArgs(tx, mintpad, "VotesCommitted", [day, user.account.address, commitment]);
+      return day;
+    }
+
+    // Switches day 1 to commit-reveal
+    async function startCommitRevealDay() {
+      await mintpad.write.setCommitRevealMode([true], { account: owner.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+    }
+
+    it("should only apply a new commit-reveal mode from the next day", async function () {
+      const day = await mintpad.read.getCurrentDay();
+
+      const tx = mintpad.write.setCommitRevealMode([true], { account: owner.account });
+      await viem.assertions.emitWithArgs(tx, mintpad, "CommitRevealModeUpdated", [day + 1n, true]);
+
+      assert.equal(await mintpad.read.isCommitRevealDay([day]), false);
+      assert.equal(await mintpad.read.isCommitRevealDay([day + 1n]), true);
+    });
+
+    it("should only accept commitments on commit-reveal days", async function () {
+      await activatePoints(alice, 1000);
+      await assert.rejects(
+        mintpad.write.commitVotes([SALT], { account: alice.account }),
+        /Mintpad__InvalidParams\("not a commit-reveal day"\)/
+      );
+
+      await startCommitRevealDay();
+      await assert.rejects(mintpad.write.commitVotes([SALT], { account: alice.account }), /Mintpad__NotActivated/);
+
+      await activatePoints(alice, 1000);
+      await assert.rejects(
+        mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account }),
+        /Mintpad__VotesMustBeCommitted/
+      );
+      await assert.rejects(
+        mintpad.write.voteMultiple([[TEST_TOKEN], [100]], { account: alice.account }),
+        /Mintpad__VotesMustBeCommitted/
+      );
+    });
+
+    it("should hide votes until revealed and count only revealed votes", async function () {
+      await startCommitRevealDay();
+
+      // Day 1: both commit, nothing is counted yet
+      await activatePoints(alice, 1000);
+      await activatePoints(bob, 1000);
+      const day = await commitFor(alice, [TEST_TOKEN, TEST_TOKEN_2], [600, 400]);
+      await commitFor(bob, [TEST_TOKEN], [1000]);
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), 0);
+
+      // Day 2: only Alice reveals; day 1 cannot be claimed while reveals are open
+      await time.increase(Number(SECONDS_PER_DAY));
+      const tx = mintpad.write.revealVotes([day, [TEST_TOKEN, TEST_TOKEN_2], [600, 400], SALT], {
+        account: alice.account
+      });
+      await viem.assertions.emitWithArgs(tx, mintpad, "Voted", [day, alice.account.address, TEST_TOKEN, 600]);
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), 600);
+      assert.equal(await mintpad.read.dailyVoteCommitments([day, alice.account.address]), `0x${"00".repeat(32)}`);
+      assert.deepEqual(await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]), [0n, 0n]);
+
+      // Day 3: Bob's unrevealed votes are forfeited
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.deepEqual(await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]), [
+        (DAILY_HUNT_REWARD * 6n) / 10n,
+        2n
+      ]);
+      const [bobClaimable] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN]);
+      assert.equal(bobClaimable, 0n);
+      await assert.rejects(
+        mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: bob.account }),
+        /Mintpad__InvalidReveal/
+      );
+    });
+
+    it("should revert on reveals that do not match the commitment", async function () {
+      await startCommitRevealDay();
+      await activatePoints(alice, 1000);
+      const day = await commitFor(alice, [TEST_TOKEN], [1000]);
+
+      // Reveals only open once the day has ended
+      await assert.rejects(
+        mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: alice.account }),
+        /Mintpad__InvalidReveal/
+      );
+
+      await time.increase(Number(SECONDS_PER_DAY));
+      await assert.rejects(
+        mintpad.write.revealVotes([day, [TEST_TOKEN], [900], SALT], { account: alice.account }),
+        /Mintpad__InvalidReveal/
+      );
+      await assert.rejects(
+        mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: bob.account }),
+        /Mintpad__InvalidReveal/
+      );
+
+      // A commitment can only be revealed once
+      await mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: alice.account });
+      await assert.rejects(
+        mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: alice.account }),
+        /Mintpad__InvalidReveal/
+      );
+    });
+
+    it("should skip revealed votes for tokens denylisted since the commitment", async function () {
+      await startCommitRevealDay();
+      await activatePoints(alice, 1000);
+      const day = await commitFor(alice, [TEST_TOKEN, TEST_TOKEN_2], [600, 400]);
+      await mintpad.write.setTokenDenied([TEST_TOKEN_2, true], { account: owner.account });
+
+      await time.increase(Number(SECONDS_PER_DAY));
+      const tx = mintpad.write.revealVotes([day, [TEST_TOKEN, TEST_TOKEN_2], [600, 400], SALT], {
+        account: alice.account
+      });
+      await viem.assertions.emitWithArgs(tx, mintpad, "RevealedVoteSkipped", [
+        day,
+        alice.account.address,
+        TEST_TOKEN_2,
+        400
+      ]);
+
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), 600);
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN_2]), 0);
+      const stats = await mintpad.read.dailyStats([day]);
+      assert.equal(stats[1], 600); // totalVotingPointSpent
+      assert.equal(stats[2], 1); // votingCount
+    });
+
+    it("should keep the streak when the reveal comes before the next day's votes", async function () {
+      // Day 0: Alice votes; day 1 is commit-reveal and day 2 is back to direct voting
+      await activateAndVoteFor(alice, 100);
+      await startCommitRevealDay();
+      await mintpad.write.setCommitRevealMode([false], { account: owner.account });
+
+      await activatePoints(alice, 1000);
+      const day = await commitFor(alice, [TEST_TOKEN], [1000]);
+
+      // Day 2: Alice reveals day 1, then votes
+      await time.increase(Number(SECONDS_PER_DAY));
+      await mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: alice.account });
+      await activateAndVoteFor(alice, 100);
+
+      assert.equal((await mintpad.read.dailyUserVotingPoint([day, alice.account.address]))[2], 2);
+      assert.equal((await mintpad.read.dailyUserVotingPoint([day + 1n, alice.account.address]))[2], 3);
+      assert.deepEqual(await mintpad.read.userVoteStreaks([alice.account.address]), [2, 3]);
+    });
+
+    it("should not count unrevealed commitments in streaks", async function () {
+      await activateAndVoteFor(alice, 100);
+      await startCommitRevealDay();
+      await mintpad.write.setCommitRevealMode([false], { account: owner.account });
+
+      await activatePoints(alice, 1000);
+      const day = await commitFor(alice, [TEST_TOKEN], [1000]);
+
+      // Day 2: Alice votes before revealing day 1, so day 1 does not count yet and her streak restarts
+      await time.increase(Number(SECONDS_PER_DAY));
+      await activateAndVoteFor(alice, 100);
+      assert.equal((await mintpad.read.dailyUserVotingPoint([day + 1n, alice.account.address]))[2], 1);
+
+      // The late reveal still extends day 0's streak for day 1 only
+      await mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: alice.account });
+      assert.equal((await mintpad.read.dailyUserVotingPoint([day, alice.account.address]))[2], 2);
+      assert.equal((await mintpad.read.dailyUserVotingPoint([day + 1n, alice.account.address]))[2], 1);
+      assert.deepEqual(await mintpad.read.userVoteStreaks([alice.account.address]), [2, 1]);
+    });
+
+    it("should let reveals through while voting is paused", async function () {
+      await startCommitRevealDay();
+      await activatePoints(alice, 1000);
+      const day = await commitFor(alice, [TEST_TOKEN], [1000]);
+
+      // Day 2: voting is paused during the reveal window, but committed votes are not forfeited
+      await time.increase(Number(SECONDS_PER_DAY));
+      await mintpad.write.pause([1], { account: owner.account }); // PauseSwitch.Voting
+      await assert.rejects(
+        mintpad.write.commitVotes([`0x${"11".repeat(32)}`], { account: alice.account }),
+        /Mintpad__Paused/
+      );
+
+      await mintpad.write.revealVotes([day, [TEST_TOKEN], [1000], SALT], { account: alice.account });
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), 1000);
+    });
+  }); // Commit-reveal voting
+
+  describe("Staked voting points", function () {
+    const MINI_BUILDING = "0x475f8E3eE5457f7B4AAca7E989D35418657AdF2a";
+    const HUNT_PER_POINT = 10n ** 18n;
+    const POINTS_PER_BUILDING = 100n;
+    const UNSTAKE_COOLDOWN = 7n * SECONDS_PER_DAY;
+    const STAKE_AMOUNT = 500n * 10n ** 18n;
+
+    let staking: any;
+    let miniBuilding: any;
+
+    beforeEach(async function () {
+      staking = await viem.deployContract("MintpadStaking", [
+        mintpad.address,
+        HUNT_PER_POINT,
+        POINTS_PER_BUILDING,
+        UNSTAKE_COOLDOWN
+      ]);
+      await mintpad.write.setVotingPointSource([staking.address], { account: owner.account });
+
+      miniBuilding = getContract({
+        address: MINI_BUILDING,
+        abi: [
+          {
+            name: "balanceOf",
+            type: "function",
+            stateMutability: "view",
+            inputs: [
+              { name: "account", type: "address" },
+              { name: "id", type: "uint256" }
+            ],
+            outputs: [{ name: "", type: "uint256" }]
+          },
+          {
+            name: "setApprovalForAll",
+            type: "function",
+            stateMutability: "nonpayable",
+            inputs: [
+              { name: "operator", type: "address" },
+              { name: "approved", type: "bool" }
+            ],
+            outputs: []
+          }
+        ],
+        client: alice
+      });
+
+      // Fund Alice with HUNT to stake and to mint Mini Buildings
+      const impersonatedAddress = "0xCB3f3e0E992435390e686D7b638FCb8baBa6c5c7";
+      await impersonateAccount(impersonatedAddress);
+      await huntToken.write.transfer([alice.account.address, 2_000n * 10n ** 18n], { account: impersonatedAddress });
+      await stopImpersonatingAccount(impersonatedAddress);
+      await huntToken.write.approve([staking.address, STAKE_AMOUNT], { account: alice.account });
+    });
+
+    async function mintMiniBuildings(amount: bigint) {
+      const maxReserveAmount = 1_000n * 10n ** 18n;
+      const bondContract = getContract({
+        address: BOND_ADDRESS,
+        abi: [
+          {
+            name: "mint",
+            type: "function",
+            stateMutability: "nonpayable",
+            inputs: [
+              { name: "token", type: "address" },
+              { name: "tokensToMint", type: "uint256" },
+              { name: "maxReserveAmount", type: "uint256" },
+              { name: "receiver", type: "address" }
+            ],
+            outputs: [{ name: "", type: "uint256" }]
+          }
+        ],
+        client: alice
+      });
+      await huntToken.write.approve([BOND_ADDRESS, maxReserveAmount], { account: alice.account });
+      await bondContract.write.mint([MINI_BUILDING, amount, maxReserveAmount, alice.account.address], {
+        account: alice.account
+      });
+    }
+
+    it("should activate voting points from staked HUNT and Mini Buildings", async function () {
+      await mintMiniBuildings(2n);
+      await miniBuilding.write.setApprovalForAll([staking.address, true], { account: alice.account });
+
+      const tx = staking.write.stake([STAKE_AMOUNT, 2n], { account: alice.account });
+      await viem.assertions.emitWithArgs(tx, staking, "Staked", [alice.account.address, STAKE_AMOUNT, 2n]);
+      assert.equal(await miniBuilding.read.balanceOf([staking.address, 0n]), 2n);
+
+      // 500 HUNT / 1 HUNT per point + 2 buildings * 100 points
+      const expectedPoints = 700;
+      assert.equal(await staking.read.getVotingPoint([alice.account.address]), expectedPoints);
+
+      const day = await mintpad.read.getCurrentDay();
+      const activateTx = mintpad.write.activateVotingPointFromSource({ account: alice.account });
+      await viem.assertions.emitWithArgs(activateTx, mintpad, "VotingPointActivated", [
+        day,
+        alice.account.address,
+        expectedPoints
+      ]);
+
+      const [activated, left] = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      assert.equal(activated, expectedPoints);
+      assert.equal(left, expectedPoints);
+      const [totalVotingPointGiven] = await mintpad.read.dailyStats([day]);
+      assert.equal(totalVotingPointGiven, expectedPoints);
+
+      // The points vote like signed ones
+      await mintpad.write.vote([TEST_TOKEN, expectedPoints], { account: alice.account });
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), expectedPoints);
+    });
+
+    it("should activate once per day, exclusive of signed activation", async function () {
+      await staking.write.stake([STAKE_AMOUNT, 0n], { account: alice.account });
+      await mintpad.write.activateVotingPointFromSource({ account: alice.account });
+
+      await assert.rejects(
+        mintpad.write.activateVotingPointFromSource({ account: alice.account }),
+        /Mintpad__AlreadyActivated/
+      );
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, signature], { account: alice.account }),
+        /Mintpad__AlreadyActivated/
+      );
+
+      // Users without a stake have nothing to activate
+      await assert.rejects(
+        mintpad.write.activateVotingPointFromSource({ account: bob.account }),
+        /Mintpad__InvalidParams\("votingPoint cannot be zero"\)/
+      );
+
+      // A new day allows a new activation
+      await time.increase(Number(SECONDS_PER_DAY));
+      await mintpad.write.activateVotingPointFromSource({ account: alice.account });
+      const [activated] = await mintpad.read.dailyUserVotingPoint([day + 1n, alice.account.address]);
+      assert.equal(activated, 500);
+    });
+
+    it("should stop earning on unstake and release the assets after the cooldown", async function () {
+      await staking.write.stake([STAKE_AMOUNT, 0n], { account: alice.account });
+      const balanceAfterStake = await huntToken.read.balanceOf([alice.account.address]);
+
+      const unstakeAmount = 200n * 10n ** 18n;
+      await staking.write.requestUnstake([unstakeAmount, 0n], { account: alice.account });
+      assert.equal(await staking.read.getVotingPoint([alice.account.address]), 300);
+
+      await assert.rejects(
+        staking.write.requestUnstake([STAKE_AMOUNT, 0n], { account: alice.account }),
+        /MintpadStaking__InvalidParams\("huntAmount exceeds stake"\)/
+      );
+      await assert.rejects(staking.write.withdraw({ account: alice.account }), /MintpadStaking__CooldownNotOver/);
+
+      await time.increase(Number(UNSTAKE_COOLDOWN));
+      const tx = staking.write.withdraw({ account: alice.account });
+      await viem.assertions.emitWithArgs(tx, staking, "Withdrawn", [alice.account.address, unstakeAmount, 0n]);
+
+      assert.equal(await huntToken.read.balanceOf([alice.account.address]), balanceAfterStake + unstakeAmount);
+      assert.equal(await staking.read.getVotingPoint([alice.account.address]), 300);
+      await assert.rejects(
+        staking.write.withdraw({ account: alice.account }),
+        /MintpadStaking__InvalidParams\("nothing to withdraw"\)/
+      );
+    });
+
+    it("should require a voting point source set by the owner", async function () {
+      await assert.rejects(
+        mintpad.write.setVotingPointSource([ZERO_ADDRESS], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+
+      const tx = mintpad.write.setVotingPointSource([ZERO_ADDRESS], { account: owner.account });
+      await viem.assertions.emitWithArgs(tx, mintpad, "VotingPointSourceUpdated", [ZERO_ADDRESS]);
+
+      await staking.write.stake([STAKE_AMOUNT, 0n], { account: alice.account });
+      await assert.rejects(
+        mintpad.write.activateVotingPointFromSource({ account: alice.account }),
+        /Mintpad__InvalidParams\("no voting point source"\)/
+      );
+    });
+
+    it("should require an unstake cooldown of at least one Mintpad day", async function () {
+      await assert.rejects(
+        viem.deployContract("MintpadStaking", [
+          mintpad.address,
+          HUNT_PER_POINT,
+          POINTS_PER_BUILDING,
+          SECONDS_PER_DAY - 1n
+        ]),
+        /MintpadStaking__InvalidParams\("unstakeCooldown below epoch length"\)/
+      );
+      await assert.rejects(
+        viem.deployContract("MintpadStaking", [ZERO_ADDRESS, HUNT_PER_POINT, POINTS_PER_BUILDING, UNSTAKE_COOLDOWN]),
+        /MintpadStaking__InvalidParams\("zero address"\)/
+      );
+    });
+  }); // Staked voting points
+
+  describe("Pause", function () {
+    const ACTIVATION = 0;
+    const VOTING = 1;
+    const CLAIMING = 2;
+
+    beforeEach(async function () {
+      await mintpad.write.setGuardian([bob.account.address], { account: owner.account });
+    });
+
+    it("should pause activation only", async function () {
+      const tx = mintpad.write.pause([ACTIVATION], { account: bob.account });
+      await viem.assertions.emit(tx, mintpad, "PauseUpdated");
+      assert.equal(await mintpad.read.paused([ACTIVATION]), true);
+
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await assert.rejects(
+        mintpad.write.activateVotingPoint([1000, signature], { account: alice.account }),
+        /Mintpad__Paused/
+      );
+
+      await mintpad.write.unpause([ACTIVATION], { account: owner.account });
+      await mintpad.write.activateVotingPoint([1000, signature], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+    });
+
+    it("should pause voting only", async function () {
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+      await mintpad.write.pause([VOTING], { account: bob.account });
+
+      await assert.rejects(mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account }), /Mintpad__Paused/);
+      await assert.rejects(
+        mintpad.write.voteMultiple([[TEST_TOKEN], [100]], { account: alice.account }),
+        /Mintpad__Paused/
+      );
+      await assert.rejects(
+        mintpad.write.reallocateVote([TEST_TOKEN, "0xFf45161474C39cB00699070Dd49582e417b57a7E", 100], {
+          account: alice.account
+        }),
+        /Mintpad__Paused/
+      );
+
+      await activatePoints(bob, 1000);
+    });
+
+    it("should pause claiming only", async function () {
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 1000], { account: alice.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      await mintpad.write.pause([CLAIMING], { account: bob.account });
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, tokensToMint, 0n], { account: alice.account }),
+        /Mintpad__Paused/
+      );
+      await assert.rejects(mintpad.write.claimMax([TEST_TOKEN, 0n, 0n], { account: alice.account }), /Mintpad__Paused/);
+
+      await mintpad.write.unpause([CLAIMING], { account: owner.account });
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0n], { account: alice.account });
+    });
+
+    it("should pause every flow at once", async function () {
+      await mintpad.write.pauseAll({ account: bob.account });
+
+      assert.equal(await mintpad.read.paused([ACTIVATION]), true);
+      assert.equal(await mintpad.read.paused([VOTING]), true);
+      assert.equal(await mintpad.read.paused([CLAIMING]), true);
+    });
+
+    it("should not allow the guardian to unpause", async function () {
+      await mintpad.write.pause([VOTING], { account: bob.account });
+
+      await assert.rejects(mintpad.write.unpause([VOTING], { account: bob.account }), /OwnableUnauthorizedAccount/);
+    });
+
+    it("should revert when others try to pause or set the guardian", async function () {
+      await assert.rejects(mintpad.write.pause([VOTING], { account: alice.account }), /OwnableUnauthorizedAccount/);
+      await assert.rejects(mintpad.write.pauseAll({ account: alice.account }), /OwnableUnauthorizedAccount/);
+      await assert.rejects(
+        mintpad.write.setGuardian([alice.account.address], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+    });
+
+    it("should allow the owner to pause", async function () {
+      const tx = mintpad.write.pause([CLAIMING], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "PauseUpdated");
+    });
+  }); // Pause
+
+  describe("voteBySig", function () {
+    async function getDeadline() {
+      return BigInt(await time.latest()) + 3600n;
+    }
+
+    it("should allow a relayer to submit a signed vote", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+      const deadline = await getDeadline();
+      const signature = await signVote(mintpad.address, alice, day, TEST_TOKEN, 400, 0n, deadline);
+
+      // Bob relays Alice's vote and pays the gas
+      const tx = mintpad.write.voteBySig([alice.account.address, day, TEST_TOKEN, 400, deadline, signature], {
+        account: bob.account
+      });
+      await viem.assertions.emit(tx, mintpad, "Voted");
+
+      const points = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      assert.equal(points[1], 600); // left
+      assert.equal(await mintpad.read.dailyUserTokenVotes([day, alice.account.address, TEST_TOKEN]), 400);
+      assert.equal(await mintpad.read.dailyUserTokenVotes([day, bob.account.address, TEST_TOKEN]), 0);
+      assert.equal(await mintpad.read.voteNonces([alice.account.address]), 1n);
+    });
+
+    it("should prevent replaying a signed vote", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+      const deadline = await getDeadline();
+      const signature = await signVote(mintpad.address, alice, day, TEST_TOKEN, 400, 0n, deadline);
+
+      await mintpad.write.voteBySig([alice.account.address, day, TEST_TOKEN, 400, deadline, signature], {
+        account: bob.account
+      });
+      await assert.rejects(
+        mintpad.write.voteBySig([alice.account.address, day, TEST_TOKEN, 400, deadline, signature], {
+          account: bob.account
+        }),
+        /Mintpad__InvalidSignature/
+      );
+    });
+
+    it("should revert with a signature from another account", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+      const deadline = await getDeadline();
+      const signature = await signVote(mintpad.address, bob, day, TEST_TOKEN, 400, 0n, deadline);
+
+      await assert.rejects(
+        mintpad.write.voteBySig([alice.account.address, day, TEST_TOKEN, 400, deadline, signature], {
+          account: bob.account
+        }),
+        /Mintpad__InvalidSignature/
+      );
+    });
+
+    it("should revert after the deadline", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+      const deadline = BigInt(await time.latest()) - 1n;
+      const signature = await signVote(mintpad.address, alice, day, TEST_TOKEN, 400, 0n, deadline);
+
+      await assert.rejects(
+        mintpad.write.voteBySig([alice.account.address, day, TEST_TOKEN, 400, deadline, signature], {
+          account: bob.account
+        }),
+        /Mintpad__SignatureExpired/
+      );
+    });
+
+    it("should revert when the signed day is not the current day", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const deadline = BigInt(await time.latest()) + SECONDS_PER_DAY * 2n;
+      const signature = await signVote(mintpad.address, alice, day, TEST_TOKEN, 400, 0n, deadline);
+
+      await time.increase(Number(SECONDS_PER_DAY));
+      await activatePoints(alice, 1000);
+
+      await assert.rejects(
+        mintpad.write.voteBySig([alice.account.address, day, TEST_TOKEN, 400, deadline, signature], {
+          account: bob.account
+        }),
+        /Mintpad__InvalidParams\("day"\)/
+      );
+    });
+
+    it("should allow a relayer to activate voting points for a user", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+
+      await mintpad.write.activateVotingPointFor([alice.account.address, 1000, signature], { account: bob.account });
+
+      const alicePoints = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      const bobPoints = await mintpad.read.dailyUserVotingPoint([day, bob.account.address]);
+      assert.equal(alicePoints[0], 1000); // activated
+      assert.equal(bobPoints[0], 0);
+    });
+  }); // voteBySig
+
+  describe("voteMultiple", function () {
+    it("should vote for multiple tokens in one transaction", async function () {
+      await activatePoints(alice, 1000);
+      const day = await mintpad.read.getCurrentDay();
+
+      const publicClient = await viem.getPublicClient();
+      const txHash = await mintpad.write.voteMultiple(
+        [
+          [TEST_TOKEN, TEST_TOKEN_2],
+          [300, 500]
+        ],
+        {
+          account: alice.account
+        }
+      );
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const votedEvents = await mintpad.getEvents.Voted(
+        {},
+        { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber }
+      );
+      assert.equal(votedEvents.length, 2);
+
+      const remainingPoints = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      const stats = await mintpad.read.dailyStats([day]);
+
+      assert.equal(remainingPoints[1], 200); // left
+      assert.equal(await mintpad.read.dailyUserTokenVotes([day, alice.account.address, TEST_TOKEN]), 300);
+      assert.equal(await mintpad.read.dailyUserTokenVotes([day, alice.account.address, TEST_TOKEN_2]), 500);
+      assert.equal(stats[1], 800); // totalVotingPointSpent
+      assert.equal(stats[2], 2); // votingCount
+    });
+
+    it("should revert when the batch exceeds remaining voting points", async function () {
+      await activatePoints(alice, 1000);
+
+      await assert.rejects(
+        mintpad.write.voteMultiple(
+          [
+            [TEST_TOKEN, TEST_TOKEN_2],
+            [600, 401]
+          ],
+          { account: alice.account }
+        ),
+        /Mintpad__InsufficientVotingPoints/
+      );
+    });
+
+    it("should validate every token in the batch", async function () {
+      await activatePoints(alice, 1000);
+
+      await assert.rejects(
+        mintpad.write.voteMultiple(
+          [
+            [TEST_TOKEN, HUNT_TOKEN],
+            [100, 100]
+          ],
+          { account: alice.account }
+        ),
+        /Mintpad__InvalidParams\("not HUNT child token"\)/
+      );
+      await assert.rejects(
+        mintpad.write.voteMultiple(
+          [
+            [TEST_TOKEN, TEST_TOKEN_2],
+            [100, 0]
+          ],
+          { account: alice.account }
+        ),
+        /Mintpad__InvalidParams\("voteAmount"\)/
+      );
+    });
+
+    it("should revert with mismatched or empty arrays", async function () {
+      await activatePoints(alice, 1000);
+
+      await assert.rejects(
+        mintpad.write.voteMultiple([[TEST_TOKEN, TEST_TOKEN_2], [100]], { account: alice.account }),
+        /Mintpad__InvalidParams\("array length mismatch"\)/
+      );
+      await assert.rejects(
+        mintpad.write.voteMultiple([[], []], { account: alice.account }),
+        /Mintpad__InvalidParams\("tokens cannot be empty"\)/
+      );
+    });
+  }); // voteMultiple
+
+  describe("activateAndVote", function () {
+    it("should activate voting points and vote in one transaction", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+
+      const tx = mintpad.write.activateAndVote([1000, signature, [TEST_TOKEN, TEST_TOKEN_2], [600, 400]], {
+        account: alice.account
+      });
+      await viem.assertions.emit(tx, mintpad, "VotingPointActivated");
+
+      const points = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      const stats = await mintpad.read.dailyStats([day]);
+
+      assert.equal(points[0], 1000); // activated
+      assert.equal(points[1], 0); // left
+      assert.equal(stats[0], 1000); // totalVotingPointGiven
+      assert.equal(stats[1], 1000); // totalVotingPointSpent
+      assert.equal(stats[2], 2); // votingCount
+    });
+
+    it("should revert with invalid signature", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, bob.account.address, day, 1000, signer);
+
+      await assert.rejects(
+        mintpad.write.activateAndVote([1000, signature, [TEST_TOKEN], [500]], { account: alice.account }),
+        /Mintpad__InvalidSignature/
+      );
+    });
+
+    it("should revert if already activated for the day", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, signature], { account: alice.account });
+
+      await assert.rejects(
+        mintpad.write.activateAndVote([1000, signature, [TEST_TOKEN], [500]], { account: alice.account }),
+        /Mintpad__AlreadyActivated/
+      );
+    });
+  }); // activateAndVote
+
+  describe("claim", function () {
+    let mintpadLens: any;
+
+    beforeEach(async function () {
+      mintpadLens = await viem.deployContract("MintpadLens", [mintpad.address]);
+    });
+
+    async function setupVotingScenario() {
+      // Day 0: Alice votes 800 points
+      const day0 = await mintpad.read.getCurrentDay();
+      const sig0Alice = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, sig0Alice], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+
+      // Move to Day 1
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      // Day 1: Alice votes 600, Bob votes 400
+      const day1 = await mintpad.read.getCurrentDay();
+      const sig1Alice = await signVotingPoint(mintpad.address, alice.account.address, day1, 1000, signer);
+      const sig1Bob = await signVotingPoint(mintpad.address, bob.account.address, day1, 500, signer);
+      await mintpad.write.activateVotingPoint([1000, sig1Alice], { account: alice.account });
+      await mintpad.write.activateVotingPoint([500, sig1Bob], { account: bob.account });
+      await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 400], { account: bob.account });
+
+      // Move to Day 2 (claims can be made for Day 0 and Day 1)
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      return { day0, day1 };
+    }
+
+    it("should allow claiming rewards", async function () {
+      await setupVotingScenario();
+
+      // Alice should get: Day 0: 800/800 * 1000 = 1000 HUNT, Day 1: 600/1000 * 1000 = 600 HUNT
+      // Total: 1600 HUNT
+      const [claimableHunt, endDay] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+
+      // Day 0: 800/800 * 1000 = 1000 HUNT
+      // Day 1: 600/1000 * 1000 = 600 HUNT
+      // Total = 1600 HUNT
+      const expectedHunt = 1600n * 10n ** 18n;
+      assert.equal(claimableHunt, expectedHunt);
+      assert.equal(endDay, 1n);
+
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      const initialBalance = await testToken.read.balanceOf([alice.account.address]);
+
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+
+      const finalBalance = await testToken.read.balanceOf([alice.account.address]);
+      assert.equal(finalBalance, initialBalance + tokensToMint);
+
+      const nextClaimDay = await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]);
+      assert.equal(nextClaimDay, 2n); // last claimed day 1 + 1
+
+      const [hasClaimed, lastClaimedDay] = await mintpadLens.read.getLastClaimedDay([
+        alice.account.address,
+        TEST_TOKEN
+      ]);
+      assert.equal(hasClaimed, true);
+      assert.equal(lastClaimedDay, 1n);
+    });
+
+    it("should handle donations correctly", async function () {
+      await setupVotingScenario();
+
+      const donationBp = 1000n; // 10%
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+
+      const publicClient = await viem.getPublicClient();
+      const bondContract = getContract({
+        address: BOND_ADDRESS,
+        abi: [
+          {
+            name: "tokenBond",
+            type: "function",
+            stateMutability: "view",
+            inputs: [{ name: "token", type: "address" }],
+            outputs: [
+              { name: "creator", type: "address" },
+              { name: "mintRoyalty", type: "uint16" },
+              { name: "burnRoyalty", type: "uint16" },
+              { name: "createdAt", type: "uint40" },
+              { name: "reserveToken", type: "address" },
+              { name: "reserveBalance", type: "uint256" }
+            ]
+          }
+        ],
+        client: publicClient
+      });
+
+      const [tokenCreator] = await bondContract.read.tokenBond([TEST_TOKEN]);
+      const initialCreatorBalance = await testToken.read.balanceOf([tokenCreator]);
       const initialBobBalance = await testToken.read.balanceOf([bob.account.address]);
 
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint, Number(donationBp)], { account: bob.account });
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, Number(donationBp)], { account: bob.account });
+
+      const finalCreatorBalance = await testToken.read.balanceOf([tokenCreator]);
+      const finalBobBalance = await testToken.read.balanceOf([bob.account.address]);
+
+      const donationAmount = (tokensToMint * donationBp) / 10000n;
+      assert.equal(finalCreatorBalance, initialCreatorBalance + donationAmount);
+      assert.equal(finalBobBalance, initialBobBalance + tokensToMint - donationAmount);
+    });
+
+    it("should prevent double claiming", async function () {
+      await setupVotingScenario();
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account }),
+        /Mintpad__NothingToClaim/
+      );
+    });
+
+    /**
+     * Regression test for the V1 day 0 double-claim bug.
+     *
+     * V1 stored the last claimed day directly, so claiming on day 1 (endDay = 0) stored 0, which was
+     * indistinguishable from "never claimed" and allowed day 0 rewards to be claimed again.
+     * V2 stores `lastClaimedDay + 1` (0 = never claimed, 1 = claimed up to day 0, etc.).
+     */
+    it("should NOT allow double claiming day 0 rewards when claimed on day 1", async function () {
+      // Day 0: Alice votes
+      const day0 = await mintpad.read.getCurrentDay();
+      assert.equal(day0, 0n);
+      const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+
+      // Move to Day 1 and claim day 0 rewards
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.equal(await mintpad.read.getCurrentDay(), 1n);
+
+      const [claimableHunt1] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt1, DAILY_HUNT_REWARD); // 800/800 * 1000 HUNT
+      const tokensToMint1 = await estimateTokenAmount(TEST_TOKEN, claimableHunt1);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint1, 0], { account: alice.account });
+
+      // Claimed up to day 0 is stored as 1, distinct from "never claimed" (0)
+      assert.equal(await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]), 1n);
+      const [hasClaimed, lastClaimedDay] = await mintpadLens.read.getLastClaimedDay([
+        alice.account.address,
+        TEST_TOKEN
+      ]);
+      assert.equal(hasClaimed, true);
+      assert.equal(lastClaimedDay, 0n);
+
+      // Move to Day 5 and vote again
+      await time.increase(Number(SECONDS_PER_DAY * 4n));
+      assert.equal(await mintpad.read.getCurrentDay(), 5n);
+      const sig5 = await signVotingPoint(mintpad.address, alice.account.address, 5n, 500, signer);
+      await mintpad.write.activateVotingPoint([500, sig5], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 300], { account: alice.account });
+
+      // Move to Day 6 to claim
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.equal(await mintpad.read.getCurrentDay(), 6n);
+
+      // Only day 5 rewards = 300/300 * 1000 = 1000 HUNT, day 0 is NOT included again
+      const [claimableHunt2] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt2, DAILY_HUNT_REWARD);
+
+      const tokensToMint2 = await estimateTokenAmount(TEST_TOKEN, claimableHunt2);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account });
+      assert.equal(await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]), 6n);
+
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account }),
+        /Mintpad__NothingToClaim/
+      );
+    });
+
+    it("should NOT allow double claiming from day 2 onwards", async function () {
+      // Skip day 0 - move to day 1 first
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.equal(await mintpad.read.getCurrentDay(), 1n);
+
+      // Day 1: Alice votes
+      const day1 = await mintpad.read.getCurrentDay();
+      const sig1 = await signVotingPoint(mintpad.address, alice.account.address, day1, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, sig1], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+
+      // Move to Day 2 - claim day 1 rewards
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.equal(await mintpad.read.getCurrentDay(), 2n);
+
+      // First claim on day 2: claims day 1 rewards, stores nextClaimDay = 2
+      const [claimableHunt1] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt1, DAILY_HUNT_REWARD); // 800/800 * 1000 HUNT
+      const tokensToMint1 = await estimateTokenAmount(TEST_TOKEN, claimableHunt1);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint1, 0], { account: alice.account });
+
+      const nextClaimDay = await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]);
+      assert.equal(nextClaimDay, 2n);
+
+      // Move to Day 6 and vote again
+      await time.increase(Number(SECONDS_PER_DAY * 4n));
+      assert.equal(await mintpad.read.getCurrentDay(), 6n);
+      const day6 = 6n;
+      const sig6 = await signVotingPoint(mintpad.address, alice.account.address, day6, 500, signer);
+      await mintpad.write.activateVotingPoint([500, sig6], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 300], { account: alice.account });
+
+      // Move to Day 7 to claim
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.equal(await mintpad.read.getCurrentDay(), 7n);
+
+      // getClaimableHunt should only include day 6 rewards (NOT day 1 again)
+      const [claimableHunt2] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+
+      // Should only be day 6 rewards = 300/300 * 1000 = 1000 HUNT
+      // Day 1 should NOT be included again
+      assert.equal(claimableHunt2, DAILY_HUNT_REWARD, "Only day 6 rewards, day 1 is NOT included again");
+
+      // Perform second claim
+      const tokensToMint2 = await estimateTokenAmount(TEST_TOKEN, claimableHunt2);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account });
+
+      // Verify nextClaimDay is now 7 (claimed up to day 6)
+      const finalNextClaimDay = await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]);
+      assert.equal(finalNextClaimDay, 7n);
+
+      // Third claim should fail - nothing left to claim
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account }),
+        /Mintpad__NothingToClaim/
+      );
+    });
+
+    it("should use the reward in effect on each voting day", async function () {
+      await setupVotingScenario();
+
+      // Changing the reward on day 2 must not reprice day 0 and day 1 votes
+      await mintpad.write.setDailyHuntReward([DAILY_HUNT_REWARD / 2n], { account: owner.account });
+
+      // Day 0: 800/800 * 1000 = 1000 HUNT, Day 1: 600/1000 * 1000 = 600 HUNT
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt, 1600n * 10n ** 18n);
+
+      // Day 2 votes keep the reward in effect when the day started: 500/500 * 1000 = 1000 HUNT
+      const day2 = await mintpad.read.getCurrentDay();
+      const sig2 = await signVotingPoint(mintpad.address, alice.account.address, day2, 500, signer);
+      await mintpad.write.activateVotingPoint([500, sig2], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 500], { account: alice.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      // Day 3 votes use the new reward: 500/500 * 500 = 500 HUNT
+      const day3 = await mintpad.read.getCurrentDay();
+      const sig3 = await signVotingPoint(mintpad.address, alice.account.address, day3, 500, signer);
+      await mintpad.write.activateVotingPoint([500, sig3], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 500], { account: alice.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const [claimableHuntAfter] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHuntAfter, 3100n * 10n ** 18n);
+    });
+
+    it("should report never claimed for new user-token pairs", async function () {
+      const [hasClaimed, lastClaimedDay] = await mintpadLens.read.getLastClaimedDay([
+        alice.account.address,
+        TEST_TOKEN
+      ]);
+      assert.equal(hasClaimed, false);
+      assert.equal(lastClaimedDay, 0n);
+    });
+
+    it("should revert with zero tokensToMint", async function () {
+      await setupVotingScenario();
+
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, 0n, 0], { account: alice.account }),
+        /Mintpad__InvalidParams\("tokensToMint must be greater than 0"\)/
+      );
+    });
+
+    it("should revert with nothing to claim", async function () {
+      // Claim function no longer validates token upfront (no _validChildToken modifier)
+      // It will revert with NothingToClaim when there are no votes for the token
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, 100n * 10n ** 18n, 0], { account: alice.account }),
+        /Mintpad__NothingToClaim/
+      );
+    });
+
+    describe("Vote expiration (30 days)", function () {
+      it("should allow claiming votes within 30 days", async function () {
+        // Setup voting on day 0
+        const day0 = await mintpad.read.getCurrentDay();
+        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
+        await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+
+        // Move forward 29 days (still within 30-day window)
+        await time.increase(Number(SECONDS_PER_DAY * 29n));
+
+        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+        // Day 0: 800/800 * 1000 = 1000 HUNT
+        assert.equal(claimableHunt, 1000n * 10n ** 18n);
+      });
+
+      it("should allow claiming votes exactly at 30 days", async function () {
+        // Setup voting on day 0
+        const day0 = await mintpad.read.getCurrentDay();
+        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
+        await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+
+        // Move forward exactly 30 days
+        await time.increase(Number(SECONDS_PER_DAY * 30n));
+
+        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+        // Day 0: 800/800 * 1000 = 1000 HUNT (still claimable on day 30)
+        assert.equal(claimableHunt, 1000n * 10n ** 18n);
+      });
+
+      it("should expire votes after 31 days", async function () {
+        // Setup voting on day 0
+        const day0 = await mintpad.read.getCurrentDay();
+        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
+        await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+
+        // Move forward 31 days (past expiration)
+        await time.increase(Number(SECONDS_PER_DAY * 31n));
+
+        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+        assert.equal(claimableHunt, 0n); // Votes expired
+      });
+
+      it("should only expire old votes, keeping recent ones", async function () {
+        // Day 0: Alice votes
+        const day0 = await mintpad.read.getCurrentDay();
+        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
+        await mintpad.write.vote([TEST_TOKEN, 400], { account: alice.account });
+
+        // Move to Day 15
+        await time.increase(Number(SECONDS_PER_DAY * 15n));
+        const day15 = await mintpad.read.getCurrentDay();
+        const sig15 = await signVotingPoint(mintpad.address, alice.account.address, day15, 1000, signer);
+        await mintpad.write.activateVotingPoint([1000, sig15], { account: alice.account });
+        await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+
+        // Move to Day 32 (Day 0 expired, Day 15 still valid)
+        await time.increase(Number(SECONDS_PER_DAY * 17n));
+
+        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+        // Day 0: expired (not included)
+        // Day 15: 600/600 * 1000 = 1000 HUNT
+        assert.equal(claimableHunt, 1000n * 10n ** 18n);
+      });
+    }); // Vote expiration (30 days)
+
+    it("should update daily stats on claim", async function () {
+      await setupVotingScenario();
+
+      const currentDay = await mintpad.read.getCurrentDay();
+      const initialStats = await mintpad.read.dailyStats([currentDay]);
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+
+      const publicClient = await viem.getPublicClient();
+      const txHash = await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const claimedEvents = await mintpad.getEvents.Claimed(
+        {},
+        { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber }
+      );
+      const actualHuntSpent = claimedEvents[0].args.actualHuntSpent!;
+
+      const finalStats = await mintpad.read.dailyStats([currentDay]);
+      assert.equal(finalStats[3], initialStats[3] + 1); // claimCount
+      assert.equal(finalStats[4], initialStats[4] + actualHuntSpent); // totalHuntClaimed
+    });
+
+    describe("claimMax", function () {
+      it("should spend the full claimable HUNT and mint at least the minimum", async function () {
+        await setupVotingScenario();
+
+        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+        const quotedTokens = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+        const minTokensToMint = (quotedTokens * 99n) / 100n;
+        const initialBalance = await testToken.read.balanceOf([alice.account.address]);
+        const initialHuntBalance = await huntToken.read.balanceOf([mintpad.address]);
+
+        const publicClient = await viem.getPublicClient();
+        const txHash = await mintpad.write.claimMax([TEST_TOKEN, minTokensToMint, 0], { account: alice.account });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+        const [claimedEvent] = await mintpad.getEvents.Claimed(
+          {},
+          { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber }
+        );
+        const { actualHuntSpent, tokensMinted } = claimedEvent.args;
+
+        assert.ok(tokensMinted! >= minTokensToMint);
+        assert.ok(actualHuntSpent! <= claimableHunt);
+        assert.ok(actualHuntSpent! * 100n >= claimableHunt * 99n);
+        assert.equal(await testToken.read.balanceOf([alice.account.address]), initialBalance + tokensMinted!);
+        assert.equal(await huntToken.read.balanceOf([mintpad.address]), initialHuntBalance - actualHuntSpent!);
+        assert.equal(await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]), 2n);
+      });
+
+      it("should revert when the minimum cannot be met", async function () {
+        await setupVotingScenario();
+
+        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+        const quotedTokens = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+
+        await assert.rejects(mintpad.write.claimMax([TEST_TOKEN, quotedTokens * 2n, 0], { account: alice.account }));
+      });
+
+      it("should revert with nothing to claim", async function () {
+        await assert.rejects(
+          mintpad.write.claimMax([TEST_TOKEN, 0n, 0], { account: alice.account }),
+          /Mintpad__NothingToClaim/
+        );
+      });
+
+      it("should let an approved operator claim the maximum for a user", async function () {
+        await setupVotingScenario();
+        await mintpad.write.setOperator([owner.account.address, TEST_TOKEN, true], { account: bob.account });
+        const initialBalance = await testToken.read.balanceOf([bob.account.address]);
+
+        await mintpad.write.claimMaxFor([bob.account.address, TEST_TOKEN, 0n], { account: owner.account });
+
+        assert.ok((await testToken.read.balanceOf([bob.account.address])) > initialBalance);
+        await assert.rejects(
+          mintpad.write.claimMaxFor([alice.account.address, TEST_TOKEN, 0n], { account: owner.account }),
+          /Mintpad__NotOperator/
+        );
+      });
+    }); // claimMax
+
+    it("should revert with excessive leftover when tokensToMint is too low", async function () {
+      await setupVotingScenario();
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+
+      // Request significantly fewer tokens to cause excessive leftover (< 98% efficiency)
+      // This will result in actualHuntSpent being much less than totalHuntToClaim
+      const inefficientTokensToMint = (tokensToMint * 97n) / 100n; // Request only 97% of optimal amount
+
+      await assert.rejects(
+        mintpad.write.claim([TEST_TOKEN, inefficientTokensToMint, 0], { account: alice.account }),
+        /Mintpad__ExcessiveLeftover/
+      );
+    });
+  }); // claim
+
+  describe("Donation splits", function () {
+    const TEAM = "0x1111111111111111111111111111111111111111";
+    const COMMUNITY = "0x2222222222222222222222222222222222222222";
+    const PRESET_NAME = "0x7465616d00000000000000000000000000000000000000000000000000000000"; // "team"
+
+    let tokenCreator: `0x${string}`;
+
+    beforeEach(async function () {
+      const bondContract = getContract({
+        address: BOND_ADDRESS,
+        abi: [
+          {
+            name: "tokenBond",
+            type: "function",
+            stateMutability: "view",
+            inputs: [{ name: "token", type: "address" }],
+            outputs: [
+              { name: "creator", type: "address" },
+              { name: "mintRoyalty", type: "uint16" },
+              { name: "burnRoyalty", type: "uint16" },
+              { name: "createdAt", type: "uint40" },
+              { name: "reserveToken", type: "address" },
+              { name: "reserveBalance", type: "uint256" }
+            ]
+          }
+        ],
+        client: await viem.getPublicClient()
+      });
+      [tokenCreator] = await bondContract.read.tokenBond([TEST_TOKEN]);
+    });
+
+    async function setupClaim() {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, signature], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 1000], { account: alice.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      return estimateTokenAmount(TEST_TOKEN, claimableHunt);
+    }
+
+    async function setPresetAsCreator(splits: { recipient: `0x${string}`; bp: number }[]) {
+      await impersonateAccount(tokenCreator);
+      await networkHelpers.setBalance(tokenCreator, 10n ** 18n);
+      const tx = mintpad.write.setDonationPreset([TEST_TOKEN, PRESET_NAME, splits], { account: tokenCreator });
+      await viem.assertions.emit(tx, mintpad, "DonationPresetUpdated");
+      await stopImpersonatingAccount(tokenCreator);
+    }
+
+    it("should split donations between multiple recipients", async function () {
+      const tokensToMint = await setupClaim();
+
+      const tx = mintpad.write.claimWithSplits(
+        [
+          TEST_TOKEN,
+          tokensToMint,
+          [
+            { recipient: TEAM, bp: 1000 },
+            { recipient: COMMUNITY, bp: 500 }
+          ]
+        ],
+        { account: alice.account }
+      );
+      await viem.assertions.emit(tx, mintpad, "Donated");
+
+      const teamAmount = (tokensToMint * 1000n) / 10000n;
+      const communityAmount = (tokensToMint * 500n) / 10000n;
+      assert.equal(await testToken.read.balanceOf([TEAM]), teamAmount);
+      assert.equal(await testToken.read.balanceOf([COMMUNITY]), communityAmount);
+      assert.equal(
+        await testToken.read.balanceOf([alice.account.address]),
+        tokensToMint - teamAmount - communityAmount
+      );
+    });
+
+    it("should claim with a preset registered by the creator", async function () {
+      await setPresetAsCreator([
+        { recipient: TEAM, bp: 2000 },
+        { recipient: COMMUNITY, bp: 3000 }
+      ]);
+      const preset = await mintpad.read.getDonationPreset([TEST_TOKEN, PRESET_NAME]);
+      assert.equal(preset.length, 2);
+      assert.equal(preset[1].bp, 3000);
+
+      const tokensToMint = await setupClaim();
+      await mintpad.write.claimWithPreset([TEST_TOKEN, tokensToMint, PRESET_NAME, 5000n], { account: alice.account });
+
+      assert.equal(await testToken.read.balanceOf([TEAM]), (tokensToMint * 2000n) / 10000n);
+      assert.equal(await testToken.read.balanceOf([COMMUNITY]), (tokensToMint * 3000n) / 10000n);
+    });
+
+    it("should remove a preset with an empty split list", async function () {
+      await setPresetAsCreator([{ recipient: TEAM, bp: 2000 }]);
+      await setPresetAsCreator([]);
+
+      assert.deepEqual(await mintpad.read.getDonationPreset([TEST_TOKEN, PRESET_NAME]), []);
+
+      const tokensToMint = await setupClaim();
+      await assert.rejects(
+        mintpad.write.claimWithPreset([TEST_TOKEN, tokensToMint, PRESET_NAME, 10000n], { account: alice.account }),
+        /Mintpad__InvalidParams\("preset not found"\)/
+      );
+    });
+
+    it("should revert when the creator raises the preset before the claim", async function () {
+      await setPresetAsCreator([{ recipient: TEAM, bp: 1000 }]);
+      const tokensToMint = await setupClaim();
+
+      // Alice accepts the 10% preset, but the creator raises it before her claim is mined
+      await setPresetAsCreator([{ recipient: TEAM, bp: 9000 }]);
+      await assert.rejects(
+        mintpad.write.claimWithPreset([TEST_TOKEN, tokensToMint, PRESET_NAME, 1000n], { account: alice.account }),
+        /Mintpad__InvalidParams\("preset exceeds maxDonationBp"\)/
+      );
+
+      // Lowering it back lets the same claim through
+      await setPresetAsCreator([{ recipient: TEAM, bp: 500 }]);
+      await mintpad.write.claimWithPreset([TEST_TOKEN, tokensToMint, PRESET_NAME, 1000n], { account: alice.account });
+      assert.equal(await testToken.read.balanceOf([TEAM]), (tokensToMint * 500n) / 10000n);
+    });
+
+    it("should revert when a non-creator sets a preset", async function () {
+      await assert.rejects(
+        mintpad.write.setDonationPreset([TEST_TOKEN, PRESET_NAME, [{ recipient: TEAM, bp: 100 }]], {
+          account: alice.account
+        }),
+        /Mintpad__NotCreator/
+      );
+    });
+
+    it("should revert on invalid splits", async function () {
+      const tokensToMint = await setupClaim();
+      const claimWithSplits = (splits: { recipient: `0x${string}`; bp: number }[]) =>
+        mintpad.write.claimWithSplits([TEST_TOKEN, tokensToMint, splits], { account: alice.account });
+
+      await assert.rejects(
+        claimWithSplits([
+          { recipient: TEAM, bp: 6000 },
+          { recipient: COMMUNITY, bp: 4001 }
+        ]),
+        /Mintpad__InvalidParams\("splits exceed 10000 bp"\)/
+      );
+      await assert.rejects(
+        claimWithSplits([{ recipient: ZERO_ADDRESS, bp: 100 }]),
+        /Mintpad__InvalidParams\("zero address"\)/
+      );
+      await assert.rejects(
+        claimWithSplits([{ recipient: TEAM, bp: 0 }]),
+        /Mintpad__InvalidParams\("bp cannot be zero"\)/
+      );
+      await assert.rejects(
+        claimWithSplits(Array.from({ length: 11 }, () => ({ recipient: TEAM, bp: 1 }))),
+        /Mintpad__InvalidParams\("too many splits"\)/
+      );
+    });
+  }); // Donation splits
+
+  describe("Bonus pools", function () {
+    const DAILY_EMISSION = 100n * 10n ** 18n; // 100 HUNT per day
+
+    let bonusPools: any;
+
+    beforeEach(async function () {
+      bonusPools = await viem.deployContract("MintpadBonusPools", [mintpad.address]);
+      await mintpad.write.setBonusPools([bonusPools.address], { account: owner.account });
+
+      // Fund the sponsor (owner) with HUNT
+      const impersonatedAddress = "0xCB3f3e0E992435390e686D7b638FCb8baBa6c5c7";
+      await impersonateAccount(impersonatedAddress);
+      await huntToken.write.transfer([owner.account.address, 1_000n * 10n ** 18n], { account: impersonatedAddress });
+      await stopImpersonatingAccount(impersonatedAddress);
+      await huntToken.write.approve([bonusPools.address, 1_000n * 10n ** 18n], { account: owner.account });
+    });
+
+    async function voteAliceAndBob(aliceVotes: number, bobVotes: number) {
+      const day = await mintpad.read.getCurrentDay();
+      const sigAlice = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      const sigBob = await signVotingPoint(mintpad.address, bob.account.address, day, 1000, signer);
+      await mintpad.write.activateAndVote([1000, sigAlice, [TEST_TOKEN], [aliceVotes]], { account: alice.account });
+      await mintpad.write.activateAndVote([1000, sigBob, [TEST_TOKEN], [bobVotes]], { account: bob.account });
+    }
+
+    it("should pay the token's voters pro rata on top of the base reward", async function () {
+      const tx = bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 6n], { account: owner.account });
+      await viem.assertions.emit(tx, bonusPools, "BonusPoolDeposited");
+      assert.equal(await huntToken.read.balanceOf([bonusPools.address]), DAILY_EMISSION * 7n);
+
+      // Day 0: Alice 600, Bob 400 -> the token gets the whole base reward
+      await voteAliceAndBob(600, 400);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const aliceBonus = (DAILY_EMISSION * 6n) / 10n;
+      assert.equal(await bonusPools.read.getUserDailyBonus([0n, alice.account.address, TEST_TOKEN]), aliceBonus);
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt, (DAILY_HUNT_REWARD * 6n) / 10n + aliceBonus);
+
+      const mintpadBalanceBefore = await huntToken.read.balanceOf([mintpad.address]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      const claimTx = mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+      await viem.assertions.emitWithArgs(claimTx, bonusPools, "BonusClaimed", [
+        alice.account.address,
+        TEST_TOKEN,
+        aliceBonus
+      ]);
+
+      // The bonus comes from the pool's deposit, not from Mintpad's reward balance
+      assert.equal(await bonusPools.read.dailyBonusClaimed([TEST_TOKEN, 0n]), aliceBonus);
+      assert.equal(await huntToken.read.balanceOf([bonusPools.address]), DAILY_EMISSION * 7n - aliceBonus);
+      assert.ok(
+        mintpadBalanceBefore - (await huntToken.read.balanceOf([mintpad.address])) <= claimableHunt - aliceBonus
+      );
+      assert.equal(await mintpad.read.dailyHuntClaimed([0n]), (DAILY_HUNT_REWARD * 6n) / 10n);
+
+      const [remainingHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(remainingHunt, 0n);
+    });
+
+    it("should only pay for days within the pool", async function () {
+      await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 1n, 1n], { account: owner.account });
+
+      // Day 0 is before the pool starts, day 1 is covered
+      await voteAliceAndBob(600, 400);
+      await time.increase(Number(SECONDS_PER_DAY));
+      await voteAliceAndBob(500, 500);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      assert.equal(await bonusPools.read.getUserDailyBonus([0n, alice.account.address, TEST_TOKEN]), 0n);
+      assert.equal(
+        await bonusPools.read.getUserDailyBonus([1n, alice.account.address, TEST_TOKEN]),
+        DAILY_EMISSION / 2n
+      );
+      assert.equal(
+        await bonusPools.read.getBonusHunt([alice.account.address, TEST_TOKEN, 0n, 1n]),
+        DAILY_EMISSION / 2n
+      );
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt, (DAILY_HUNT_REWARD * 6n) / 10n + DAILY_HUNT_REWARD / 2n + DAILY_EMISSION / 2n);
+    });
+
+    it("should refund unclaimed HUNT to the sponsor once the pool has expired", async function () {
+      await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 1n], { account: owner.account });
+      await voteAliceAndBob(600, 400);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+
+      // Day 31: day 1 (the pool's last day) can still be claimed
+      await time.increase(Number(SECONDS_PER_DAY * 30n));
+      await assert.rejects(
+        bonusPools.write.close([1n], { account: owner.account }),
+        /MintpadBonusPools__InvalidParams\("pool not expired"\)/
+      );
+
+      // Day 32: every day of the pool has expired
+      await time.increase(Number(SECONDS_PER_DAY));
+      await assert.rejects(bonusPools.write.close([1n], { account: alice.account }), /MintpadBonusPools__NotSponsor/);
+
+      const sponsorBalanceBefore = await huntToken.read.balanceOf([owner.account.address]);
+      // Bob's day 0 share and all of day 1 (no votes) are refunded
+      const expectedRefund = DAILY_EMISSION * 2n - (DAILY_EMISSION * 6n) / 10n;
+      await viem.assertions.emitWithArgs(
+        bonusPools.write.close([1n], { account: owner.account }),
+        bonusPools,
+        "BonusPoolClosed",
+        [1n, TEST_TOKEN, owner.account.address, expectedRefund]
+      );
+      assert.equal(await huntToken.read.balanceOf([owner.account.address]), sponsorBalanceBefore + expectedRefund);
+
+      // A closed pool cannot be refunded twice
+      await assert.rejects(bonusPools.write.close([1n], { account: owner.account }), /MintpadBonusPools__NotSponsor/);
+    });
+
+    it("should not let a dust pool block other sponsors", async function () {
+      // Alice opens a 1 wei pool for the longest allowed range
+      await huntToken.write.transfer([alice.account.address, 90n], { account: owner.account });
+      await huntToken.write.approve([bonusPools.address, 90n], { account: alice.account });
+      await bonusPools.write.deposit([TEST_TOKEN, 1n, 0n, 89n], { account: alice.account });
+
+      // Another sponsor can still fund the same days, and the emissions add up
+      const tx = bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 0n], { account: owner.account });
+      await viem.assertions.emitWithArgs(tx, bonusPools, "BonusPoolDeposited", [
+        2n,
+        TEST_TOKEN,
+        owner.account.address,
+        DAILY_EMISSION,
+        0n,
+        0n
+      ]);
+      assert.equal(await bonusPools.read.dailyBonusEmission([TEST_TOKEN, 0n]), DAILY_EMISSION + 1n);
 
-      const finalCreatorBalance = await testToken.read.balanceOf([tokenCreator]);
-      const finalBobBalance = await testToken.read.balanceOf([bob.account.address]);
+      // Day 0: Alice 600, Bob 400 share both pools' emission
+      await voteAliceAndBob(600, 400);
+      await time.increase(Number(SECONDS_PER_DAY));
+      assert.equal(
+        await bonusPools.read.getUserDailyBonus([0n, bob.account.address, TEST_TOKEN]),
+        ((DAILY_EMISSION + 1n) * 4n) / 10n
+      );
 
-      const donationAmount = (tokensToMint * donationBp) / 10000n;
-      assert.equal(finalCreatorBalance, initialCreatorBalance + donationAmount);
-      assert.equal(finalBobBalance, initialBobBalance + tokensToMint - donationAmount);
+      // Bob claims; once day 0 expires, the sponsor gets their share of the unclaimed HUNT back
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([bob.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: bob.account });
+
+      await time.increase(Number(SECONDS_PER_DAY * 31n));
+      const unclaimed = DAILY_EMISSION + 1n - ((DAILY_EMISSION + 1n) * 4n) / 10n;
+      const expectedRefund = (DAILY_EMISSION * unclaimed) / (DAILY_EMISSION + 1n);
+      await viem.assertions.emitWithArgs(
+        bonusPools.write.close([2n], { account: owner.account }),
+        bonusPools,
+        "BonusPoolClosed",
+        [2n, TEST_TOKEN, owner.account.address, expectedRefund]
+      );
     });
 
-    it("should prevent double claiming", async function () {
-      await setupVotingScenario();
+    it("should pay nothing for voided token votes", async function () {
+      await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 0n], { account: owner.account });
+      await voteAliceAndBob(600, 400);
+      await mintpad.write.setTokenDenied([TEST_TOKEN, true], { account: owner.account });
+      await mintpad.write.voidTokenVotes([TEST_TOKEN], { account: owner.account });
+      await time.increase(Number(SECONDS_PER_DAY));
 
-      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      assert.equal(await bonusPools.read.getUserDailyBonus([0n, alice.account.address, TEST_TOKEN]), 0n);
+    });
 
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+    it("should revert on invalid pools", async function () {
+      const deposit = (token: `0x${string}`, dailyEmission: bigint, startDay: bigint, endDay: bigint) =>
+        bonusPools.write.deposit([token, dailyEmission, startDay, endDay], { account: owner.account });
+
+      await time.increase(Number(SECONDS_PER_DAY));
 
       await assert.rejects(
-        mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account }),
-        /Mintpad__NothingToClaim/
+        deposit(HUNT_TOKEN, DAILY_EMISSION, 1n, 1n),
+        /MintpadBonusPools__InvalidParams\("not HUNT child token"\)/
+      );
+      await assert.rejects(
+        deposit(TEST_TOKEN, 0n, 1n, 1n),
+        /MintpadBonusPools__InvalidParams\("dailyEmission cannot be zero"\)/
+      );
+      await assert.rejects(
+        deposit(TEST_TOKEN, DAILY_EMISSION, 0n, 1n),
+        /MintpadBonusPools__InvalidParams\("startDay in the past"\)/
+      );
+      await assert.rejects(
+        deposit(TEST_TOKEN, DAILY_EMISSION, 2n, 1n),
+        /MintpadBonusPools__InvalidParams\("endDay before startDay"\)/
       );
+      await assert.rejects(deposit(TEST_TOKEN, 1n, 1n, 91n), /MintpadBonusPools__InvalidParams\("pool too long"\)/);
     });
 
-    /**
-     * NOTE: Known Issue - Day 0 Double-Claim Vulnerability
-     *
-     * This test demonstrates a bug where day 0 rewards can be claimed twice.
-     *
-     * Root cause:
-     * - `userTokenLastClaimDay` uses 0 for both "never claimed" (default) and "claimed up to day 0"
-     * - When a user claims on day 1 (endDay = 0), lastClaimedDay is set to 0
-     * - On subsequent claims, the code interprets lastClaimedDay = 0 as "never claimed"
-     * - This allows day 0 rewards to be included again in the next claim
-     *
-     * Production status:
-     * - This issue was discovered at day 2 when the contract was already deployed
-     * - No exploits occurred because no users claimed on day 1 (when endDay = 0)
-     * - From day 2 onwards, endDay >= 1, so lastClaimedDay is always >= 1 (unambiguous)
-     *
-     * Fix for future deployments:
-     * - Store `lastClaimedDay + 1` instead of `lastClaimedDay` in the mapping
-     * - 0 = never claimed (default), 1 = claimed up to day 0, 2 = claimed up to day 1, etc.
-     */
-    it("KNOWN BUG: allows double claiming day 0 rewards when claimed on day 1", async function () {
-      // Day 0: Alice votes
-      const day0 = await mintpad.read.getCurrentDay();
-      assert.equal(day0, 0n);
-      const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
-      await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
-      await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+    it("should only let Mintpad pay out bonuses", async function () {
+      await assert.rejects(
+        bonusPools.write.claimBonus([alice.account.address, TEST_TOKEN, 0n, 0n], { account: alice.account }),
+        /MintpadBonusPools__NotMintpad/
+      );
+    });
 
-      // Move to Day 1 - this is the critical window where the bug can be triggered
-      // Claiming on day 1 sets lastClaimedDay = 0 (endDay = currentDay - 1 = 0)
-      // which is indistinguishable from "never claimed", enabling double-claim on next claim
-      await time.increase(Number(SECONDS_PER_DAY));
-      assert.equal(await mintpad.read.getCurrentDay(), 1n);
+    it("should only let the owner register bonus pools once", async function () {
+      assert.equal((await mintpad.read.bonusPools()).toLowerCase(), bonusPools.address.toLowerCase());
 
-      // First claim on day 1: claims day 0 rewards, sets lastClaimedDay = 0 (BUG: ambiguous with "never claimed")
-      const [claimableHunt1] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-      assert.equal(claimableHunt1, DAILY_HUNT_REWARD); // 800/800 * 1000 HUNT
-      const tokensToMint1 = await estimateTokenAmount(TEST_TOKEN, claimableHunt1);
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint1, 0], { account: alice.account });
+      const otherPools = await viem.deployContract("MintpadBonusPools", [mintpad.address]);
+      await assert.rejects(
+        mintpad.write.setBonusPools([otherPools.address], { account: owner.account }),
+        /Mintpad__InvalidParams\("bonusPools already set"\)/
+      );
+      await assert.rejects(
+        mintpad.write.setBonusPools([otherPools.address], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+    });
 
-      // Verify lastClaimedDay is set to 0 (the problematic value)
-      const lastClaimedDay = await mintpad.read.userTokenLastClaimDay([alice.account.address, TEST_TOKEN]);
-      assert.equal(lastClaimedDay, 0n); // This 0 is indistinguishable from "never claimed"
+    it("should reject bonus pools deployed for another Mintpad", async function () {
+      const otherMintpad = await viem.deployContract("Mintpad", [
+        signer.account.address,
+        DAILY_HUNT_REWARD,
+        ZERO_ADDRESS,
+        SECONDS_PER_DAY,
+        0n
+      ]);
+      await assert.rejects(
+        otherMintpad.write.setBonusPools([bonusPools.address], { account: owner.account }),
+        /Mintpad__InvalidParams\("bonusPools for another Mintpad"\)/
+      );
+      await assert.rejects(
+        viem.deployContract("MintpadBonusPools", [ZERO_ADDRESS]),
+        /MintpadBonusPools__InvalidParams\("zero address"\)/
+      );
+    });
+  }); // Bonus pools
 
-      // Move to Day 5 and vote again
-      await time.increase(Number(SECONDS_PER_DAY * 4n));
-      assert.equal(await mintpad.read.getCurrentDay(), 5n);
-      const day5 = 5n;
-      const sig5 = await signVotingPoint(mintpad.address, alice.account.address, day5, 500, signer);
-      await mintpad.write.activateVotingPoint([500, sig5], { account: alice.account });
-      await mintpad.write.vote([TEST_TOKEN, 300], { account: alice.account });
+  describe("Creator rewards", function () {
+    const CREATOR_SHARE_BP = 2000; // 20%
 
-      // Move to Day 6 to claim
+    let tokenCreator: `0x${string}`;
+    let mintpadLens: any;
+
+    beforeEach(async function () {
+      const bondContract = getContract({
+        address: BOND_ADDRESS,
+        abi: [
+          {
+            name: "tokenBond",
+            type: "function",
+            stateMutability: "view",
+            inputs: [{ name: "token", type: "address" }],
+            outputs: [
+              { name: "creator", type: "address" },
+              { name: "mintRoyalty", type: "uint16" },
+              { name: "burnRoyalty", type: "uint16" },
+              { name: "createdAt", type: "uint40" },
+              { name: "reserveToken", type: "address" },
+              { name: "reserveBalance", type: "uint256" }
+            ]
+          }
+        ],
+        client: await viem.getPublicClient()
+      });
+      [tokenCreator] = await bondContract.read.tokenBond([TEST_TOKEN]);
+      mintpadLens = await viem.deployContract("MintpadLens", [mintpad.address]);
+    });
+
+    // Day 1: Alice votes 600 for TEST_TOKEN and Bob 400 for TEST_TOKEN_2 with the creator share on
+    async function setupCreatorRewards() {
+      await mintpad.write.setCreatorShare([CREATOR_SHARE_BP], { account: owner.account });
       await time.increase(Number(SECONDS_PER_DAY));
-      assert.equal(await mintpad.read.getCurrentDay(), 6n);
 
-      // BUG: getClaimableHunt includes day 0 AGAIN because lastClaimedDay = 0 is treated as "never claimed"
-      const [claimableHunt2] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const day = await mintpad.read.getCurrentDay();
+      const sigAlice = await signVotingPoint(mintpad.address, alice.account.address, day, 600, signer);
+      const sigBob = await signVotingPoint(mintpad.address, bob.account.address, day, 400, signer);
+      await mintpad.write.activateAndVote([600, sigAlice, [TEST_TOKEN], [600]], { account: alice.account });
+      await mintpad.write.activateAndVote([400, sigBob, [TEST_TOKEN_2], [400]], { account: bob.account });
+      await time.increase(Number(SECONDS_PER_DAY));
+    }
 
-      // Expected if bug didn't exist: only day 5 rewards = 300/300 * 1000 = 1000 HUNT
-      // Actual with bug: day 0 (1000 HUNT) + days 1-4 (0 HUNT, no votes) + day 5 (1000 HUNT) = 2000 HUNT
-      const expectedWithBug = DAILY_HUNT_REWARD * 2n; // Day 0 + Day 5
-      const expectedWithoutBug = DAILY_HUNT_REWARD; // Only Day 5
+    async function claimAsCreator(mintTokens: boolean) {
+      await impersonateAccount(tokenCreator);
+      await networkHelpers.setBalance(tokenCreator, 10n ** 18n);
+      const tx = mintpad.write.claimCreatorReward([TEST_TOKEN, mintTokens, 0n], { account: tokenCreator });
+      await viem.assertions.emit(tx, mintpad, "CreatorRewardClaimed");
+      await stopImpersonatingAccount(tokenCreator);
+    }
 
-      // This assertion proves the bug exists - day 0 rewards are claimable again
-      assert.equal(claimableHunt2, expectedWithBug, "BUG: Day 0 rewards are included again");
-      assert.notEqual(claimableHunt2, expectedWithoutBug, "If this fails, the bug has been fixed");
+    it("should only apply a new creator share from the next day", async function () {
+      const day = await mintpad.read.getCurrentDay();
 
-      // Actually perform the second claim to prove double-claiming succeeds
-      const tokensToMint2 = await estimateTokenAmount(TEST_TOKEN, claimableHunt2);
-      const aliceBalanceBefore = await testToken.read.balanceOf([alice.account.address]);
+      const tx = mintpad.write.setCreatorShare([CREATOR_SHARE_BP], { account: owner.account });
+      await viem.assertions.emitWithArgs(tx, mintpad, "CreatorShareUpdated", [day + 1n, CREATOR_SHARE_BP]);
 
-      // Second claim succeeds - this should NOT be possible if the bug didn't exist
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account });
+      assert.equal(await mintpad.read.getCreatorShareBp([day]), 0n);
+      assert.equal(await mintpad.read.getCreatorShareBp([day + 1n]), BigInt(CREATOR_SHARE_BP));
+    });
 
-      const aliceBalanceAfter = await testToken.read.balanceOf([alice.account.address]);
+    it("should split the daily reward between voters and creators by token votes", async function () {
+      await setupCreatorRewards();
 
-      // Verify Alice received tokens from the second claim (including day 0 rewards AGAIN)
+      const creatorReward = (DAILY_HUNT_REWARD * 2n) / 10n;
+      const voterReward = DAILY_HUNT_REWARD - creatorReward;
+      assert.equal(await mintpadLens.read.getCreatorDailyReward([1n, TEST_TOKEN]), (creatorReward * 6n) / 10n);
+      assert.equal(await mintpadLens.read.getCreatorDailyReward([1n, TEST_TOKEN_2]), (creatorReward * 4n) / 10n);
+      assert.equal(await mintpadLens.read.getTokenDailyReward([1n, TEST_TOKEN]), (voterReward * 6n) / 10n);
       assert.equal(
-        aliceBalanceAfter - aliceBalanceBefore,
-        tokensToMint2,
-        "BUG CONFIRMED: Second claim succeeded with day 0 rewards included again"
+        await mintpad.read.getUserDailyReward([1n, alice.account.address, TEST_TOKEN]),
+        (voterReward * 6n) / 10n
       );
 
-      // After this second claim, lastClaimedDay = 5, so future claims won't include day 0 anymore
-      const finalLastClaimedDay = await mintpad.read.userTokenLastClaimDay([alice.account.address, TEST_TOKEN]);
-      assert.equal(finalLastClaimedDay, 5n, "After second claim, lastClaimedDay is no longer 0");
+      // Day 0 had no creator share, so the token's creator only earns from day 1
+      const [claimableHunt, endDay] = await mintpadLens.read.getClaimableCreatorHunt([TEST_TOKEN]);
+      assert.equal(claimableHunt, (creatorReward * 6n) / 10n);
+      assert.equal(endDay, 1n);
     });
 
-    /**
-     * This test proves that the double-claim bug ONLY affects day 0.
-     * When claiming on day 2 (for day 1 rewards), lastClaimedDay = 1, which is unambiguous.
-     * Subsequent claims correctly start from day 2, preventing double-claiming.
-     */
-    it("should NOT allow double claiming from day 2 onwards (bug only affects day 0)", async function () {
-      // Skip day 0 - move to day 1 first
+    it("should pay the creator reward in HUNT", async function () {
+      await setupCreatorRewards();
+      const [claimableHunt] = await mintpadLens.read.getClaimableCreatorHunt([TEST_TOKEN]);
+
+      const creatorBalanceBefore = await huntToken.read.balanceOf([tokenCreator]);
+      await claimAsCreator(false);
+
+      assert.equal(await huntToken.read.balanceOf([tokenCreator]), creatorBalanceBefore + claimableHunt);
+      assert.equal(await mintpad.read.dailyHuntClaimed([1n]), claimableHunt);
+      assert.equal(await mintpad.read.creatorTokenNextClaimDay([TEST_TOKEN]), 2n);
+      assert.deepEqual(await mintpadLens.read.getClaimableCreatorHunt([TEST_TOKEN]), [0n, 1n]);
+
+      await impersonateAccount(tokenCreator);
+      await assert.rejects(
+        mintpad.write.claimCreatorReward([TEST_TOKEN, false, 0n], { account: tokenCreator }),
+        /Mintpad__NothingToClaim/
+      );
+      await stopImpersonatingAccount(tokenCreator);
+    });
+
+    it("should mint the creator reward as child tokens", async function () {
+      await setupCreatorRewards();
+      const [claimableHunt] = await mintpadLens.read.getClaimableCreatorHunt([TEST_TOKEN]);
+
+      const mintpadBalanceBefore = await huntToken.read.balanceOf([mintpad.address]);
+      const creatorTokensBefore = await testToken.read.balanceOf([tokenCreator]);
+      await claimAsCreator(true);
+
+      assert.ok((await testToken.read.balanceOf([tokenCreator])) > creatorTokensBefore);
+      assert.equal(await testToken.read.balanceOf([mintpad.address]), 0n);
+      assert.ok(mintpadBalanceBefore - (await huntToken.read.balanceOf([mintpad.address])) <= claimableHunt);
+    });
+
+    it("should revert on invalid creator reward calls", async function () {
+      await assert.rejects(
+        mintpad.write.setCreatorShare([5001], { account: owner.account }),
+        /Mintpad__InvalidParams\("creatorShareBp exceeds max"\)/
+      );
+      await assert.rejects(
+        mintpad.write.setCreatorShare([CREATOR_SHARE_BP], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+
+      await setupCreatorRewards();
+      await assert.rejects(
+        mintpad.write.claimCreatorReward([TEST_TOKEN, false, 0n], { account: alice.account }),
+        /Mintpad__NotCreator/
+      );
+    });
+  }); // Creator rewards
+
+  describe("Expired rewards", function () {
+    let mintpadLens: any;
+
+    beforeEach(async function () {
+      mintpadLens = await viem.deployContract("MintpadLens", [mintpad.address]);
+    });
+
+    async function setupDay0Votes() {
+      // Day 0: Alice votes 600 and Bob votes 400 for TEST_TOKEN
+      const day0 = await mintpad.read.getCurrentDay();
+      const sigAlice = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
+      const sigBob = await signVotingPoint(mintpad.address, bob.account.address, day0, 1000, signer);
+      await mintpad.write.activateAndVote([1000, sigAlice, [TEST_TOKEN], [600]], { account: alice.account });
+      await mintpad.write.activateAndVote([1000, sigBob, [TEST_TOKEN], [400]], { account: bob.account });
       await time.increase(Number(SECONDS_PER_DAY));
-      assert.equal(await mintpad.read.getCurrentDay(), 1n);
 
-      // Day 1: Alice votes
-      const day1 = await mintpad.read.getCurrentDay();
-      const sig1 = await signVotingPoint(mintpad.address, alice.account.address, day1, 1000, signer);
-      await mintpad.write.activateVotingPoint([1000, sig1], { account: alice.account });
-      await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+      // Alice claims her 600 HUNT on day 1
+      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
+    }
 
-      // Move to Day 2 - claim day 1 rewards
+    it("should track claimed HUNT per vote day", async function () {
+      await setupDay0Votes();
+
+      assert.equal(await mintpad.read.getDailyHuntAllocated([0n]), DAILY_HUNT_REWARD);
+      assert.equal(await mintpad.read.getDailyHuntAllocated([1n]), 0n); // no votes on day 1
+      assert.equal(await mintpad.read.dailyHuntClaimed([0n]), 600n * 10n ** 18n);
+    });
+
+    it("should only report days past the expiration window as expired", async function () {
+      await setupDay0Votes();
+
+      // Day 30: day 0 is still claimable
+      await time.increase(Number(SECONDS_PER_DAY * 29n));
+      let [amount] = await mintpadLens.read.getUnsweptExpiredHunt([100n]);
+      assert.equal(amount, 0n);
+
+      // Day 31: day 0 expired with Bob's 400 HUNT unclaimed
       await time.increase(Number(SECONDS_PER_DAY));
-      assert.equal(await mintpad.read.getCurrentDay(), 2n);
+      let fromDay, toDay;
+      [amount, fromDay, toDay] = await mintpadLens.read.getUnsweptExpiredHunt([100n]);
+      assert.equal(amount, 400n * 10n ** 18n);
+      assert.equal(fromDay, 0n);
+      assert.equal(toDay, 1n);
+    });
 
-      // First claim on day 2: claims day 1 rewards, sets lastClaimedDay = 1 (UNAMBIGUOUS - not 0!)
-      const [claimableHunt1] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-      assert.equal(claimableHunt1, DAILY_HUNT_REWARD); // 800/800 * 1000 HUNT
-      const tokensToMint1 = await estimateTokenAmount(TEST_TOKEN, claimableHunt1);
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint1, 0], { account: alice.account });
+    it("should bound the unswept report by maxDays", async function () {
+      await setupDay0Votes();
 
-      // Verify lastClaimedDay is set to 1 (NOT 0, so it's unambiguous)
-      const lastClaimedDay = await mintpad.read.userTokenLastClaimDay([alice.account.address, TEST_TOKEN]);
-      assert.equal(lastClaimedDay, 1n, "lastClaimedDay = 1 is unambiguous (not the default 0)");
+      // Day 33: days 0 to 2 expired, only day 0 had votes
+      await time.increase(Number(SECONDS_PER_DAY * 32n));
+      let [amount, fromDay, toDay] = await mintpadLens.read.getUnsweptExpiredHunt([1n]);
+      assert.equal(amount, 400n * 10n ** 18n);
+      assert.equal(fromDay, 0n);
+      assert.equal(toDay, 1n);
 
-      // Move to Day 6 and vote again
-      await time.increase(Number(SECONDS_PER_DAY * 4n));
-      assert.equal(await mintpad.read.getCurrentDay(), 6n);
-      const day6 = 6n;
-      const sig6 = await signVotingPoint(mintpad.address, alice.account.address, day6, 500, signer);
-      await mintpad.write.activateVotingPoint([500, sig6], { account: alice.account });
-      await mintpad.write.vote([TEST_TOKEN, 300], { account: alice.account });
+      [amount, fromDay, toDay] = await mintpadLens.read.getUnsweptExpiredHunt([2n ** 256n - 1n]);
+      assert.equal(toDay, 3n);
 
-      // Move to Day 7 to claim
+      await assert.rejects(
+        mintpadLens.read.getUnsweptExpiredHunt([0n]),
+        /MintpadLens__InvalidParams\("maxDays cannot be zero"\)/
+      );
+    });
+
+    it("should sweep only expired HUNT to the treasury", async function () {
+      await setupDay0Votes();
+      await time.increase(Number(SECONDS_PER_DAY * 30n));
+
+      const treasury = owner.account.address;
+      const initialTreasuryBalance = await huntToken.read.balanceOf([treasury]);
+      const initialContractBalance = await huntToken.read.balanceOf([mintpad.address]);
+
+      const tx = mintpad.write.sweepExpiredHunt([treasury, 100n], { account: owner.account });
+      await viem.assertions.emit(tx, mintpad, "ExpiredHuntSwept");
+
+      const expiredAmount = 400n * 10n ** 18n;
+      assert.equal(await huntToken.read.balanceOf([treasury]), initialTreasuryBalance + expiredAmount);
+      assert.equal(await huntToken.read.balanceOf([mintpad.address]), initialContractBalance - expiredAmount);
+      assert.equal(await mintpad.read.nextSweepDay(), 1n);
+
+      await assert.rejects(
+        mintpad.write.sweepExpiredHunt([treasury, 100n], { account: owner.account }),
+        /Mintpad__InvalidParams\("nothing expired"\)/
+      );
+    });
+
+    it("should process at most maxDays per sweep", async function () {
+      await setupDay0Votes();
+      await time.increase(Number(SECONDS_PER_DAY * 40n)); // day 41: days 0-10 expired
+
+      await mintpad.write.sweepExpiredHunt([owner.account.address, 5n], { account: owner.account });
+      assert.equal(await mintpad.read.nextSweepDay(), 5n);
+
+      await mintpad.write.sweepExpiredHunt([owner.account.address, 100n], { account: owner.account });
+      assert.equal(await mintpad.read.nextSweepDay(), 11n);
+    });
+
+    it("should exclude claimed and expired days from outstanding HUNT", async function () {
+      await setupDay0Votes();
+
+      // Day 0 allocated 1000 HUNT, Alice claimed 600
+      assert.equal(await mintpad.read.getOutstandingHunt(), 400n * 10n ** 18n);
+
+      await time.increase(Number(SECONDS_PER_DAY * 30n));
+      assert.equal(await mintpad.read.getOutstandingHunt(), 0n);
+    });
+
+    it("should revert when non-owner tries to sweep", async function () {
+      await assert.rejects(
+        mintpad.write.sweepExpiredHunt([alice.account.address, 100n], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+    });
+  }); // Expired rewards
+
+  describe("Operator claims", function () {
+    async function setupAliceVotes() {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await mintpad.write.activateAndVote([1000, signature, [TEST_TOKEN, TEST_TOKEN_2], [600, 400]], {
+        account: alice.account
+      });
       await time.increase(Number(SECONDS_PER_DAY));
-      assert.equal(await mintpad.read.getCurrentDay(), 7n);
 
-      // getClaimableHunt should only include day 6 rewards (NOT day 1 again)
-      const [claimableHunt2] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      const [huntAmounts] = await mintpad.read.getClaimableHuntMultiple([
+        alice.account.address,
+        [TEST_TOKEN, TEST_TOKEN_2]
+      ]);
+      return [
+        await estimateTokenAmount(TEST_TOKEN, huntAmounts[0]),
+        await estimateTokenAmount(TEST_TOKEN_2, huntAmounts[1])
+      ];
+    }
 
-      // Should only be day 6 rewards = 300/300 * 1000 = 1000 HUNT
-      // Day 1 should NOT be included again because lastClaimedDay = 1 is unambiguous
-      assert.equal(claimableHunt2, DAILY_HUNT_REWARD, "Only day 6 rewards, day 1 is NOT included again");
+    it("should let a globally approved operator claim and send tokens to the user", async function () {
+      const tokensToMint = await setupAliceVotes();
 
-      // Perform second claim
-      const tokensToMint2 = await estimateTokenAmount(TEST_TOKEN, claimableHunt2);
-      await mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account });
+      const tx = mintpad.write.setOperator([bob.account.address, ZERO_ADDRESS, true], { account: alice.account });
+      await viem.assertions.emit(tx, mintpad, "OperatorApprovalUpdated");
+      assert.equal(
+        await mintpad.read.isApprovedOperator([alice.account.address, bob.account.address, TEST_TOKEN]),
+        true
+      );
 
-      // Verify lastClaimedDay is now 6
-      const finalLastClaimedDay = await mintpad.read.userTokenLastClaimDay([alice.account.address, TEST_TOKEN]);
-      assert.equal(finalLastClaimedDay, 6n);
+      const initialAliceBalance = await testToken.read.balanceOf([alice.account.address]);
+      const initialBobBalance = await testToken.read.balanceOf([bob.account.address]);
 
-      // Third claim should fail - nothing left to claim
+      await mintpad.write.claimFor([alice.account.address, TEST_TOKEN, tokensToMint[0]], { account: bob.account });
+
+      assert.equal(await testToken.read.balanceOf([alice.account.address]), initialAliceBalance + tokensToMint[0]);
+      assert.equal(await testToken.read.balanceOf([bob.account.address]), initialBobBalance);
+      assert.equal(await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]), 1n);
+    });
+
+    it("should claim multiple tokens for a user", async function () {
+      const tokensToMint = await setupAliceVotes();
+      await mintpad.write.setOperator([bob.account.address, ZERO_ADDRESS, true], { account: alice.account });
+
+      await mintpad.write.claimMultipleFor([alice.account.address, [TEST_TOKEN, TEST_TOKEN_2], tokensToMint], {
+        account: bob.account
+      });
+
+      const [huntAmounts] = await mintpad.read.getClaimableHuntMultiple([
+        alice.account.address,
+        [TEST_TOKEN, TEST_TOKEN_2]
+      ]);
+      assert.deepEqual(huntAmounts, [0n, 0n]);
+    });
+
+    it("should limit token-specific approvals to that token", async function () {
+      const tokensToMint = await setupAliceVotes();
+      await mintpad.write.setOperator([bob.account.address, TEST_TOKEN, true], { account: alice.account });
+
+      await mintpad.write.claimFor([alice.account.address, TEST_TOKEN, tokensToMint[0]], { account: bob.account });
       await assert.rejects(
-        mintpad.write.claim([TEST_TOKEN, tokensToMint2, 0], { account: alice.account }),
-        /Mintpad__NothingToClaim/,
-        "No double-claiming possible when lastClaimedDay > 0"
+        mintpad.write.claimFor([alice.account.address, TEST_TOKEN_2, tokensToMint[1]], { account: bob.account }),
+        /Mintpad__NotOperator/
       );
     });
 
-    it("should revert with zero tokensToMint", async function () {
-      await setupVotingScenario();
+    it("should revert for unapproved or revoked operators", async function () {
+      const tokensToMint = await setupAliceVotes();
 
       await assert.rejects(
-        mintpad.write.claim([TEST_TOKEN, 0n, 0], { account: alice.account }),
-        /Mintpad__InvalidParams\("tokensToMint must be greater than 0"\)/
+        mintpad.write.claimFor([alice.account.address, TEST_TOKEN, tokensToMint[0]], { account: bob.account }),
+        /Mintpad__NotOperator/
+      );
+
+      await mintpad.write.setOperator([bob.account.address, ZERO_ADDRESS, true], { account: alice.account });
+      await mintpad.write.setOperator([bob.account.address, ZERO_ADDRESS, false], { account: alice.account });
+      await assert.rejects(
+        mintpad.write.claimMultipleFor([alice.account.address, [TEST_TOKEN], [tokensToMint[0]]], {
+          account: bob.account
+        }),
+        /Mintpad__NotOperator/
       );
     });
 
-    it("should revert with nothing to claim", async function () {
-      // Claim function no longer validates token upfront (no _validChildToken modifier)
-      // It will revert with NothingToClaim when there are no votes for the token
+    it("should accept a signed approval submitted by anyone", async function () {
+      const tokensToMint = await setupAliceVotes();
+      const deadline = BigInt(await time.latest()) + 3600n;
+      const signature = await signOperatorApproval(
+        mintpad.address,
+        alice,
+        bob.account.address,
+        ZERO_ADDRESS,
+        true,
+        0n,
+        deadline
+      );
+
+      await mintpad.write.setOperatorBySig(
+        [alice.account.address, bob.account.address, ZERO_ADDRESS, true, deadline, signature],
+        { account: bob.account }
+      );
+      assert.equal(await mintpad.read.operatorApprovalNonces([alice.account.address]), 1n);
+
+      await mintpad.write.claimFor([alice.account.address, TEST_TOKEN, tokensToMint[0]], { account: bob.account });
+
+      // Replaying the same signature fails because the nonce was consumed
       await assert.rejects(
-        mintpad.write.claim([TEST_TOKEN, 100n * 10n ** 18n, 0], { account: alice.account }),
-        /Mintpad__NothingToClaim/
+        mintpad.write.setOperatorBySig(
+          [alice.account.address, bob.account.address, ZERO_ADDRESS, true, deadline, signature],
+          { account: bob.account }
+        ),
+        /Mintpad__InvalidSignature/
+      );
+    });
+
+    it("should revert signed approvals after the deadline", async function () {
+      const deadline = BigInt(await time.latest()) - 1n;
+      const signature = await signOperatorApproval(
+        mintpad.address,
+        alice,
+        bob.account.address,
+        ZERO_ADDRESS,
+        true,
+        0n,
+        deadline
+      );
+
+      await assert.rejects(
+        mintpad.write.setOperatorBySig(
+          [alice.account.address, bob.account.address, ZERO_ADDRESS, true, deadline, signature],
+          { account: bob.account }
+        ),
+        /Mintpad__SignatureExpired/
+      );
+    });
+  }); // Operator claims
+
+  describe("V1 migration", function () {
+    const V1_DAILY_HUNT_REWARD = 500n * 10n ** 18n;
+
+    async function deployMigrationFixture() {
+      const currentMidnight = (BigInt(await time.latest()) / SECONDS_PER_DAY) * SECONDS_PER_DAY;
+      const v1DeploymentTimestamp = currentMidnight - SECONDS_PER_DAY * 10n; // V1 is on day 10
+
+      const v1 = await viem.deployContract("MintpadV1Mock", [v1DeploymentTimestamp, V1_DAILY_HUNT_REWARD]);
+      // @ts-ignore - Constructor signature updated
+      const v2 = await viem.deployContract("Mintpad", [
+        signer.account.address,
+        DAILY_HUNT_REWARD,
+        v1.address,
+        SECONDS_PER_DAY,
+        0n
+      ]);
+
+      return { v1, v2, v1DeploymentTimestamp };
+    }
+
+    it("should reuse V1 day numbering", async function () {
+      const { v1, v2, v1DeploymentTimestamp } = await deployMigrationFixture();
+
+      assert.equal(await v2.read.getDeploymentTimestamp(), v1DeploymentTimestamp);
+      assert.equal(await v2.read.getCurrentDay(), 10n);
+      assert.equal((await v2.read.PREVIOUS_MINTPAD()).toLowerCase(), v1.address.toLowerCase());
+      assert.equal(await v2.read.migrationOpen(), true);
+    });
+
+    it("should not open migration for fresh deployments", async function () {
+      assert.equal(await mintpad.read.migrationOpen(), false);
+      await assert.rejects(
+        mintpad.write.migrateDailyStats([[0n]], { account: owner.account }),
+        /Mintpad__MigrationClosed/
+      );
+    });
+
+    it("should import daily stats and votes so pending rewards stay claimable", async function () {
+      const { v1, v2 } = await deployMigrationFixture();
+
+      // Day 8 on V1: Alice 600 and Bob 400 out of 1000 spent
+      await v1.write.setDailyStats([
+        8n,
+        {
+          totalVotingPointGiven: 1500,
+          totalVotingPointSpent: 1000,
+          votingCount: 2,
+          claimCount: 0,
+          totalHuntClaimed: 0n
+        }
+      ]);
+      await v1.write.setDailyUserTokenVotes([8n, alice.account.address, TEST_TOKEN, 600]);
+      await v1.write.setDailyUserTokenVotes([8n, bob.account.address, TEST_TOKEN, 400]);
+
+      await v2.write.migrateDailyStats([[8n]], { account: owner.account });
+      await v2.write.migrateUserTokenVotes(
+        [
+          [8n, 8n],
+          [alice.account.address, bob.account.address],
+          [TEST_TOKEN, TEST_TOKEN]
+        ],
+        { account: owner.account }
       );
-    });
 
-    describe("Vote expiration (30 days)", function () {
-      it("should allow claiming votes within 30 days", async function () {
-        // Setup voting on day 0
-        const day0 = await mintpad.read.getCurrentDay();
-        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
-        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
-        await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+      const stats = await v2.read.dailyStats([8n]);
+      assert.equal(stats[0], 1500); // totalVotingPointGiven
+      assert.equal(stats[1], 1000); // totalVotingPointSpent
+      assert.equal(stats[2], 2); // votingCount
+      assert.equal(await v2.read.dailyUserTokenVotes([8n, alice.account.address, TEST_TOKEN]), 600);
 
-        // Move forward 29 days (still within 30-day window)
-        await time.increase(Number(SECONDS_PER_DAY * 29n));
+      // Day 8 is paid at V1's reward: 600/1000 * 500 = 300 HUNT
+      const [claimableHunt, endDay] = await v2.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt, 300n * 10n ** 18n);
+      assert.equal(endDay, 9n);
+    });
 
-        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-        // Day 0: 800/800 * 1000 = 1000 HUNT
-        assert.equal(claimableHunt, 1000n * 10n ** 18n);
-      });
+    it("should rebuild per-token totals and keep V1's reward for migrated days", async function () {
+      const { v1, v2 } = await deployMigrationFixture();
 
-      it("should allow claiming votes exactly at 30 days", async function () {
-        // Setup voting on day 0
-        const day0 = await mintpad.read.getCurrentDay();
-        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
-        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
-        await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+      await v1.write.setDailyUserTokenVotes([8n, alice.account.address, TEST_TOKEN, 600]);
+      await v1.write.setDailyUserTokenVotes([8n, bob.account.address, TEST_TOKEN, 400]);
 
-        // Move forward exactly 30 days
-        await time.increase(Number(SECONDS_PER_DAY * 30n));
+      // The signer never voted on day 8, so its entry is skipped
+      await v2.write.migrateUserTokenVotes(
+        [
+          [8n, 8n, 8n],
+          [alice.account.address, bob.account.address, signer.account.address],
+          [TEST_TOKEN, TEST_TOKEN, TEST_TOKEN]
+        ],
+        { account: owner.account }
+      );
 
-        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-        // Day 0: 800/800 * 1000 = 1000 HUNT (still claimable on day 30)
-        assert.equal(claimableHunt, 1000n * 10n ** 18n);
-      });
+      assert.equal(await v2.read.dailyTokenVotes([8n, TEST_TOKEN]), 1000);
+      assert.deepEqual(
+        (await v2.read.getDailyTokens([8n])).map((t) => t.toLowerCase()),
+        [TEST_TOKEN.toLowerCase()]
+      );
+      assert.deepEqual(await v2.read.getUserDailyTokens([8n, signer.account.address]), []);
 
-      it("should expire votes after 31 days", async function () {
-        // Setup voting on day 0
-        const day0 = await mintpad.read.getCurrentDay();
-        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
-        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
-        await mintpad.write.vote([TEST_TOKEN, 800], { account: alice.account });
+      assert.equal(await v2.read.getDailyHuntReward([8n]), V1_DAILY_HUNT_REWARD);
+      assert.equal(await v2.read.getDailyHuntReward([10n]), DAILY_HUNT_REWARD);
+    });
 
-        // Move forward 31 days (past expiration)
-        await time.increase(Number(SECONDS_PER_DAY * 31n));
+    it("should convert last claim days to the offset encoding", async function () {
+      const { v1, v2 } = await deployMigrationFixture();
 
-        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-        assert.equal(claimableHunt, 0n); // Votes expired
-      });
+      await v1.write.setDailyUserTokenVotes([5n, alice.account.address, TEST_TOKEN, 100]);
+      await v1.write.setDailyStats([
+        5n,
+        { totalVotingPointGiven: 100, totalVotingPointSpent: 100, votingCount: 1, claimCount: 0, totalHuntClaimed: 0n }
+      ]);
+      await v1.write.setUserTokenLastClaimDay([alice.account.address, TEST_TOKEN, 5n]);
+
+      await v2.write.migrateDailyStats([[5n]], { account: owner.account });
+      await v2.write.migrateUserTokenVotes([[5n], [alice.account.address], [TEST_TOKEN]], { account: owner.account });
+      await v2.write.migrateUserTokenLastClaimDays(
+        [
+          [alice.account.address, bob.account.address],
+          [TEST_TOKEN, TEST_TOKEN]
+        ],
+        { account: owner.account }
+      );
 
-      it("should only expire old votes, keeping recent ones", async function () {
-        // Day 0: Alice votes
-        const day0 = await mintpad.read.getCurrentDay();
-        const sig0 = await signVotingPoint(mintpad.address, alice.account.address, day0, 1000, signer);
-        await mintpad.write.activateVotingPoint([1000, sig0], { account: alice.account });
-        await mintpad.write.vote([TEST_TOKEN, 400], { account: alice.account });
+      assert.equal(await v2.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]), 6n);
+      assert.equal(await v2.read.userTokenNextClaimDay([bob.account.address, TEST_TOKEN]), 0n); // never claimed
 
-        // Move to Day 15
-        await time.increase(Number(SECONDS_PER_DAY * 15n));
-        const day15 = await mintpad.read.getCurrentDay();
-        const sig15 = await signVotingPoint(mintpad.address, alice.account.address, day15, 1000, signer);
-        await mintpad.write.activateVotingPoint([1000, sig15], { account: alice.account });
-        await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+      // Day 5 was already claimed on V1
+      const [claimableHunt] = await v2.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimableHunt, 0n);
+    });
 
-        // Move to Day 32 (Day 0 expired, Day 15 still valid)
-        await time.increase(Number(SECONDS_PER_DAY * 17n));
+    it("should reject expired, duplicate or mismatched imports", async function () {
+      const { v1, v2 } = await deployMigrationFixture();
+      await v1.write.setDailyStats([
+        9n,
+        { totalVotingPointGiven: 10, totalVotingPointSpent: 10, votingCount: 1, claimCount: 0, totalHuntClaimed: 0n }
+      ]);
+      await v2.write.migrateDailyStats([[9n]], { account: owner.account });
 
-        const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-        // Day 0: expired (not included)
-        // Day 15: 600/600 * 1000 = 1000 HUNT
-        assert.equal(claimableHunt, 1000n * 10n ** 18n);
-      });
-    }); // Vote expiration (30 days)
+      await assert.rejects(
+        v2.write.migrateDailyStats([[9n]], { account: owner.account }),
+        /Mintpad__InvalidParams\("already migrated"\)/
+      );
+      await assert.rejects(
+        v2.write.migrateUserTokenVotes([[9n], [alice.account.address], []], { account: owner.account }),
+        /Mintpad__InvalidParams\("length"\)/
+      );
 
-    it("should update daily stats on claim", async function () {
-      await setupVotingScenario();
+      // Move V2 to day 41: day 10 and older are expired
+      await time.increase(Number(SECONDS_PER_DAY * 31n));
+      await assert.rejects(
+        v2.write.migrateDailyStats([[10n]], { account: owner.account }),
+        /Mintpad__InvalidParams\("day expired"\)/
+      );
+    });
 
-      const currentDay = await mintpad.read.getCurrentDay();
-      const initialStats = await mintpad.read.dailyStats([currentDay]);
+    it("should reject days from the cut-over day onwards", async function () {
+      const { v1, v2 } = await deployMigrationFixture();
 
-      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      // V2 took over on day 10, so V1 values for day 10 and later are never imported
+      await v1.write.setDailyStats([
+        10n,
+        { totalVotingPointGiven: 10, totalVotingPointSpent: 10, votingCount: 1, claimCount: 0, totalHuntClaimed: 0n }
+      ]);
+      await v1.write.setDailyUserTokenVotes([10n, alice.account.address, TEST_TOKEN, 10]);
 
-      const publicClient = await viem.getPublicClient();
-      const txHash = await mintpad.write.claim([TEST_TOKEN, tokensToMint, 0], { account: alice.account });
-      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
-      const claimedEvents = await mintpad.getEvents.Claimed(
-        {},
-        { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber }
+      await assert.rejects(
+        v2.write.migrateDailyStats([[10n]], { account: owner.account }),
+        /Mintpad__InvalidParams\("not a V1 day"\)/
+      );
+      await assert.rejects(
+        v2.write.migrateUserTokenVotes([[10n], [alice.account.address], [TEST_TOKEN]], { account: owner.account }),
+        /Mintpad__InvalidParams\("not a V1 day"\)/
       );
-      const actualHuntSpent = claimedEvents[0].args.actualHuntSpent!;
 
-      const finalStats = await mintpad.read.dailyStats([currentDay]);
-      assert.equal(finalStats[3], initialStats[3] + 1); // claimCount
-      assert.equal(finalStats[4], initialStats[4] + actualHuntSpent); // totalHuntClaimed
+      // Still rejected once later days have started
+      await time.increase(Number(SECONDS_PER_DAY * 2n));
+      await assert.rejects(
+        v2.write.migrateDailyStats([[11n]], { account: owner.account }),
+        /Mintpad__InvalidParams\("not a V1 day"\)/
+      );
+      assert.equal(await v2.read.dailyTokenVotes([10n, TEST_TOKEN]), 0);
     });
 
-    it("should revert with excessive leftover when tokensToMint is too low", async function () {
-      await setupVotingScenario();
+    it("should only allow the owner to migrate", async function () {
+      const { v2 } = await deployMigrationFixture();
 
-      const [claimableHunt] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
-      const tokensToMint = await estimateTokenAmount(TEST_TOKEN, claimableHunt);
+      await assert.rejects(
+        v2.write.migrateDailyStats([[9n]], { account: alice.account }),
+        /OwnableUnauthorizedAccount/
+      );
+      await assert.rejects(v2.write.finishMigration({ account: alice.account }), /OwnableUnauthorizedAccount/);
+    });
 
-      // Request significantly fewer tokens to cause excessive leftover (< 98% efficiency)
-      // This will result in actualHuntSpent being much less than totalHuntToClaim
-      const inefficientTokensToMint = (tokensToMint * 97n) / 100n; // Request only 97% of optimal amount
+    it("should permanently close migration", async function () {
+      const { v2 } = await deployMigrationFixture();
+
+      const tx = v2.write.finishMigration({ account: owner.account });
+      await viem.assertions.emit(tx, v2, "MigrationFinished");
+      assert.equal(await v2.read.migrationOpen(), false);
+
+      await assert.rejects(v2.write.migrateDailyStats([[9n]], { account: owner.account }), /Mintpad__MigrationClosed/);
+      await assert.rejects(v2.write.finishMigration({ account: owner.account }), /Mintpad__MigrationClosed/);
+    });
+
+    it("should require V1's epoch when migrating", async function () {
+      const { v1 } = await deployMigrationFixture();
 
       await assert.rejects(
-        mintpad.write.claim([TEST_TOKEN, inefficientTokensToMint, 0], { account: alice.account }),
-        /Mintpad__ExcessiveLeftover/
+        // @ts-ignore - Constructor signature updated
+        viem.deployContract("Mintpad", [signer.account.address, DAILY_HUNT_REWARD, v1.address, 3600n, 0n]),
+        /Mintpad__InvalidParams\("epoch must match V1"\)/
       );
     });
-  }); // claim
+  }); // V1 migration
 
   describe("getDeploymentTimestamp", function () {
     it("should return UTC midnight of deployment day", async function () {
@@ -827,15 +3397,6 @@ describe("Mintpad", async function () {
   }); // getDeploymentTimestamp
 
   describe("getClaimableHuntMultiple", function () {
-    // Use another verified HUNT child token on Base: MT
-    const TEST_TOKEN_2 = "0xFf45161474C39cB00699070Dd49582e417b57a7E";
-
-    async function activatePoints(user: any, points: number) {
-      const day = await mintpad.read.getCurrentDay();
-      const signature = await signVotingPoint(mintpad.address, user.account.address, day, points, signer);
-      await mintpad.write.activateVotingPoint([points, signature], { account: user.account });
-    }
-
     it("should return claimable amounts for multiple tokens", async function () {
       // Day 0: Alice votes for both tokens
       await activatePoints(alice, 1000);
@@ -954,6 +3515,282 @@ describe("Mintpad", async function () {
     });
   }); // getClaimableHuntMultiple
 
+  describe("Daily leaderboard", function () {
+    let mintpadLens: any;
+
+    beforeEach(async function () {
+      mintpadLens = await viem.deployContract("MintpadLens", [mintpad.address]);
+    });
+
+    it("should track per-day token totals and the tokens voted for", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      await activatePoints(alice, 1000);
+      await activatePoints(bob, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 200], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 300], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 400], { account: bob.account });
+
+      assert.deepEqual(
+        (await mintpad.read.getDailyTokens([day])).map((token: string) => token.toLowerCase()),
+        [TEST_TOKEN.toLowerCase(), TEST_TOKEN_2.toLowerCase()]
+      );
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN]), 600);
+      assert.equal(await mintpad.read.dailyTokenVotes([day, TEST_TOKEN_2]), 300);
+      assert.deepEqual(await mintpad.read.getDailyTokens([day + 1n]), []);
+    });
+
+    it("should project each token's share of the daily reward", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 300], { account: alice.account });
+
+      assert.equal(await mintpadLens.read.getTokenDailyReward([day, TEST_TOKEN]), (600n * DAILY_HUNT_REWARD) / 900n);
+      assert.equal(await mintpadLens.read.getTokenDailyReward([day, TEST_TOKEN_2]), (300n * DAILY_HUNT_REWARD) / 900n);
+
+      // The projection matches what the voter can claim once the day ends
+      await time.increase(Number(SECONDS_PER_DAY));
+      const [claimable] = await mintpad.read.getClaimableHunt([alice.account.address, TEST_TOKEN]);
+      assert.equal(claimable, (600n * DAILY_HUNT_REWARD) / 900n);
+    });
+
+    it("should return tokens sorted by votes", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 300], { account: alice.account });
+
+      const [rankings, tokenCount] = await mintpadLens.read.getDailyLeaderboard([day, 0n, 10n]);
+
+      assert.equal(tokenCount, 2n);
+      assert.equal(rankings.length, 2);
+      assert.equal(rankings[0].token.toLowerCase(), TEST_TOKEN_2.toLowerCase());
+      assert.equal(rankings[0].votes, 300);
+      assert.equal(rankings[0].projectedHunt, (300n * DAILY_HUNT_REWARD) / 400n);
+      assert.equal(rankings[1].token.toLowerCase(), TEST_TOKEN.toLowerCase());
+      assert.equal(rankings[1].votes, 100);
+      assert.equal(rankings[1].projectedHunt, (100n * DAILY_HUNT_REWARD) / 400n);
+    });
+
+    it("should paginate the leaderboard", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 300], { account: alice.account });
+
+      const [firstPage] = await mintpadLens.read.getDailyLeaderboard([day, 0n, 1n]);
+      assert.equal(firstPage.length, 1);
+      assert.equal(firstPage[0].token.toLowerCase(), TEST_TOKEN_2.toLowerCase());
+
+      const [secondPage, tokenCount] = await mintpadLens.read.getDailyLeaderboard([day, 1n, 1n]);
+      assert.equal(tokenCount, 2n);
+      assert.equal(secondPage.length, 1);
+      assert.equal(secondPage[0].token.toLowerCase(), TEST_TOKEN.toLowerCase());
+
+      const [emptyPage] = await mintpadLens.read.getDailyLeaderboard([day, 2n, 10n]);
+      assert.equal(emptyPage.length, 0);
+    });
+
+    it("should not rank denylisted or voided tokens", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 300], { account: alice.account });
+
+      await mintpad.write.setTokenDenied([TEST_TOKEN_2, true], { account: owner.account });
+      let [rankings, tokenCount] = await mintpadLens.read.getDailyLeaderboard([day, 0n, 10n]);
+      assert.equal(tokenCount, 1n);
+      assert.equal(rankings.length, 1);
+      assert.equal(rankings[0].token.toLowerCase(), TEST_TOKEN.toLowerCase());
+
+      // Voided votes stay excluded after the token is allowed again
+      await mintpad.write.voidTokenVotes([TEST_TOKEN_2], { account: owner.account });
+      await mintpad.write.setTokenDenied([TEST_TOKEN_2, false], { account: owner.account });
+      [rankings, tokenCount] = await mintpadLens.read.getDailyLeaderboard([day, 0n, 10n]);
+      assert.equal(tokenCount, 1n);
+      assert.equal(rankings[0].token.toLowerCase(), TEST_TOKEN.toLowerCase());
+    });
+
+    it("should revert on a zero limit", async function () {
+      const day = await mintpad.read.getCurrentDay();
+      await assert.rejects(mintpadLens.read.getDailyLeaderboard([day, 0n, 0n]), /MintpadLens__InvalidParams/);
+    });
+  }); // Daily leaderboard
+
+  describe("Vote history", function () {
+    let mintpadLens: any;
+
+    beforeEach(async function () {
+      mintpadLens = await viem.deployContract("MintpadLens", [mintpad.address]);
+    });
+
+    it("should track the tokens a user voted for each day", async function () {
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 200], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 300], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 100], { account: alice.account });
+
+      const day = await mintpad.read.getCurrentDay();
+      assert.deepEqual(
+        (await mintpad.read.getUserDailyTokens([day, alice.account.address])).map((token: string) =>
+          token.toLowerCase()
+        ),
+        [TEST_TOKEN.toLowerCase(), TEST_TOKEN_2.toLowerCase()]
+      );
+      assert.deepEqual(await mintpad.read.getUserDailyTokens([day, bob.account.address]), []);
+    });
+
+    it("should return votes, totals, projected rewards and claim status per day", async function () {
+      // Day 0: Alice and Bob vote
+      await activatePoints(alice, 1000);
+      await activatePoints(bob, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 200], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 200], { account: bob.account });
+
+      // Day 1: Alice votes again and claims day 0 for TEST_TOKEN
+      await time.increase(Number(SECONDS_PER_DAY));
+      await activatePoints(alice, 500);
+      await mintpad.write.vote([TEST_TOKEN_2, 500], { account: alice.account });
+      await mintpad.write.claimMax([TEST_TOKEN, 0n, 0n], { account: alice.account });
+
+      const records = await mintpadLens.read.getUserVoteHistory([alice.account.address, 0n, 1n]);
+
+      assert.equal(records.length, 3);
+      assert.equal(records[0].day, 0n);
+      assert.equal(records[0].token.toLowerCase(), TEST_TOKEN.toLowerCase());
+      assert.equal(records[0].votes, 600);
+      assert.equal(records[0].tokenVotes, 800);
+      assert.equal(records[0].projectedHunt, (600n * DAILY_HUNT_REWARD) / 1000n);
+      assert.equal(records[0].claimed, true);
+
+      assert.equal(records[1].day, 0n);
+      assert.equal(records[1].token.toLowerCase(), TEST_TOKEN_2.toLowerCase());
+      assert.equal(records[1].projectedHunt, (200n * DAILY_HUNT_REWARD) / 1000n);
+      assert.equal(records[1].claimed, false);
+
+      assert.equal(records[2].day, 1n);
+      assert.equal(records[2].votes, 500);
+      assert.equal(records[2].projectedHunt, DAILY_HUNT_REWARD);
+      assert.equal(records[2].claimed, false);
+    });
+
+    it("should clamp the range to the vote expiration window", async function () {
+      // Day 0: Alice votes
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 1000], { account: alice.account });
+
+      // Day 31: day 0 has expired
+      await time.increase(Number(SECONDS_PER_DAY * 31n));
+      await activatePoints(alice, 1000);
+      await mintpad.write.vote([TEST_TOKEN, 1000], { account: alice.account });
+
+      const records = await mintpadLens.read.getUserVoteHistory([alice.account.address, 0n, 100n]);
+
+      assert.equal(records.length, 1);
+      assert.equal(records[0].day, 31n);
+    });
+
+    it("should revert when fromDay is after toDay", async function () {
+      await assert.rejects(
+        mintpadLens.read.getUserVoteHistory([alice.account.address, 2n, 1n]),
+        /MintpadLens__InvalidParams/
+      );
+    });
+  }); // Vote history
+
+  describe("claimMultiple", function () {
+    async function setupMultiTokenVotes() {
+      const day = await mintpad.read.getCurrentDay();
+      const signature = await signVotingPoint(mintpad.address, alice.account.address, day, 1000, signer);
+      await mintpad.write.activateVotingPoint([1000, signature], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN, 600], { account: alice.account });
+      await mintpad.write.vote([TEST_TOKEN_2, 400], { account: alice.account });
+
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const [huntAmounts] = await mintpad.read.getClaimableHuntMultiple([
+        alice.account.address,
+        [TEST_TOKEN, TEST_TOKEN_2]
+      ]);
+      const tokensToMint = [
+        await estimateTokenAmount(TEST_TOKEN, huntAmounts[0]),
+        await estimateTokenAmount(TEST_TOKEN_2, huntAmounts[1])
+      ];
+      return { tokensToMint };
+    }
+
+    it("should claim rewards for multiple tokens in one transaction", async function () {
+      const { tokensToMint } = await setupMultiTokenVotes();
+      const testToken2 = await viem.getContractAt("IERC20", TEST_TOKEN_2);
+
+      const initialBalance1 = await testToken.read.balanceOf([alice.account.address]);
+      const initialBalance2 = await testToken2.read.balanceOf([alice.account.address]);
+      const day = await mintpad.read.getCurrentDay();
+      const initialStats = await mintpad.read.dailyStats([day]);
+
+      const publicClient = await viem.getPublicClient();
+      const txHash = await mintpad.write.claimMultiple([[TEST_TOKEN, TEST_TOKEN_2], tokensToMint, [0n, 0n]], {
+        account: alice.account
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const claimedEvents = await mintpad.getEvents.Claimed(
+        {},
+        { fromBlock: receipt.blockNumber, toBlock: receipt.blockNumber }
+      );
+      assert.equal(claimedEvents.length, 2);
+
+      assert.equal(await testToken.read.balanceOf([alice.account.address]), initialBalance1 + tokensToMint[0]);
+      assert.equal(await testToken2.read.balanceOf([alice.account.address]), initialBalance2 + tokensToMint[1]);
+      assert.equal(await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN]), 1n);
+      assert.equal(await mintpad.read.userTokenNextClaimDay([alice.account.address, TEST_TOKEN_2]), 1n);
+
+      const totalHuntSpent = claimedEvents[0].args.actualHuntSpent! + claimedEvents[1].args.actualHuntSpent!;
+      const finalStats = await mintpad.read.dailyStats([day]);
+      assert.equal(finalStats[3], initialStats[3] + 2); // claimCount
+      assert.equal(finalStats[4], initialStats[4] + totalHuntSpent); // totalHuntClaimed
+    });
+
+    it("should revert if any token has nothing to claim", async function () {
+      const { tokensToMint } = await setupMultiTokenVotes();
+      await mintpad.write.claim([TEST_TOKEN_2, tokensToMint[1], 0], { account: alice.account });
+
+      await assert.rejects(
+        mintpad.write.claimMultiple([[TEST_TOKEN, TEST_TOKEN_2], tokensToMint, [0n, 0n]], { account: alice.account }),
+        /Mintpad__NothingToClaim/
+      );
+    });
+
+    it("should apply the efficiency rule per token", async function () {
+      const { tokensToMint } = await setupMultiTokenVotes();
+
+      await assert.rejects(
+        mintpad.write.claimMultiple(
+          [
+            [TEST_TOKEN, TEST_TOKEN_2],
+            [tokensToMint[0], (tokensToMint[1] * 97n) / 100n],
+            [0n, 0n]
+          ],
+          {
+            account: alice.account
+          }
+        ),
+        /Mintpad__ExcessiveLeftover/
+      );
+    });
+
+    it("should revert with mismatched or empty arrays", async function () {
+      await assert.rejects(
+        mintpad.write.claimMultiple([[TEST_TOKEN, TEST_TOKEN_2], [1n], [0n, 0n]], { account: alice.account }),
+        /Mintpad__InvalidParams\("array length mismatch"\)/
+      );
+      await assert.rejects(
+        mintpad.write.claimMultiple([[], [], []], { account: alice.account }),
+        /Mintpad__InvalidParams\("tokens cannot be empty"\)/
+      );
+    });
+  }); // claimMultiple
+
   describe("getCurrentDay", function () {
     it("should return 0 on deployment day", async function () {
       const currentDay = await mintpad.read.getCurrentDay();
@@ -985,7 +3822,13 @@ describe("Mintpad", async function () {
       await time.setNextBlockTimestamp(Number(deploymentTimestamp));
 
       // @ts-ignore - Constructor signature updated
-      const testMintpad = await viem.deployContract("Mintpad", [signer.account.address, DAILY_HUNT_REWARD]);
+      const testMintpad = await viem.deployContract("Mintpad", [
+        signer.account.address,
+        DAILY_HUNT_REWARD,
+        ZERO_ADDRESS,
+        SECONDS_PER_DAY,
+        0n
+      ]);
 
       // Should be day 0 immediately after deployment (deployed at 18:00 UTC)
       let currentDay = await testMintpad.read.getCurrentDay();
@@ -1006,5 +3849,43 @@ describe("Mintpad", async function () {
       currentDay = await testMintpad.read.getCurrentDay();
       assert.equal(currentDay, 2n, "Should be day 2 after another full UTC day");
     });
+
+    it("should use a custom epoch length and genesis timestamp", async function () {
+      const EPOCH_LENGTH = 3600n;
+      const genesisTimestamp = BigInt(await time.latest()) - EPOCH_LENGTH * 5n - 60n;
+
+      // @ts-ignore - Constructor signature updated
+      const hourlyMintpad = await viem.deployContract("Mintpad", [
+        signer.account.address,
+        DAILY_HUNT_REWARD,
+        ZERO_ADDRESS,
+        EPOCH_LENGTH,
+        genesisTimestamp
+      ]);
+
+      assert.equal(await hourlyMintpad.read.EPOCH_LENGTH(), EPOCH_LENGTH);
+      assert.equal(await hourlyMintpad.read.getDeploymentTimestamp(), genesisTimestamp);
+      assert.equal(await hourlyMintpad.read.getCurrentDay(), 5n);
+
+      await time.increase(Number(EPOCH_LENGTH));
+      assert.equal(await hourlyMintpad.read.getCurrentDay(), 6n);
+    });
+
+    it("should align the default genesis to the start of the epoch", async function () {
+      const EPOCH_LENGTH = 3600n;
+
+      // @ts-ignore - Constructor signature updated
+      const hourlyMintpad = await viem.deployContract("Mintpad", [
+        signer.account.address,
+        DAILY_HUNT_REWARD,
+        ZERO_ADDRESS,
+        EPOCH_LENGTH,
+        0n
+      ]);
+
+      const genesisTimestamp = await hourlyMintpad.read.getDeploymentTimestamp();
+      assert.equal(genesisTimestamp % EPOCH_LENGTH, 0n);
+      assert.equal(await hourlyMintpad.read.getCurrentDay(), 0n);
+    });
   }); // getCurrentDay
 }); // Mintpad
@@ -0,0 +1,197 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach } from "node:test";
+import { network } from "hardhat";
+
+// Constants for testing
+const BOND_ADDRESS = "0xc5a076cad94176c2996B32d8466Be1cE757FAa27";
+const HUNT_TOKEN = "0x37f0c2915CeCC7e977183B8543Fc0864d03E064C";
+const TEST_TOKEN = "0xDF2B673Ec06d210C8A8Be89441F8de60B5C679c9"; // SIGNET
+const DAILY_EMISSION = 100n * 10n ** 18n; // 100 HUNT per day
+
+// Bonus pool accounting only reads Mintpad's votes, so it runs on the local network against stand-ins
+// for Mintpad, HUNT and BOND. Claims through the real Mintpad are covered by the fork tests in Mintpad.test.ts
+describe("MintpadBonusPools", async function () {
+  const connection = await network.connect("hardhatMainnet");
+  const { viem, networkHelpers } = connection;
+
+  async function deployBonusPoolsFixture() {
+    const [sponsor, sponsor2, alice, bob] = await viem.getWalletClients();
+    const publicClient = await viem.getPublicClient();
+
+    // HUNT and BOND are constants in MintpadBonusPools, so the mocks' code is placed at their addresses
+    for (const [name, address] of [
+      ["ERC20Mock", HUNT_TOKEN],
+      ["MCV2BondMock", BOND_ADDRESS]
+    ] as const) {
+      const mock = await viem.deployContract(name);
+      await networkHelpers.setCode(address, (await publicClient.getCode({ address: mock.address }))!);
+    }
+    const huntToken = await viem.getContractAt("ERC20Mock", HUNT_TOKEN);
+    const bond = await viem.getContractAt("MCV2BondMock", BOND_ADDRESS);
+    await bond.write.setReserveToken([TEST_TOKEN, HUNT_TOKEN]);
+
+    const mintpad = await viem.deployContract("MintpadVotesMock");
+    const bonusPools = await viem.deployContract("MintpadBonusPools", [mintpad.address]);
+
+    for (const wallet of [sponsor, sponsor2]) {
+      await huntToken.write.mint([wallet.account.address, 10_000n * 10n ** 18n]);
+      await huntToken.write.approve([bonusPools.address, 10_000n * 10n ** 18n], { account: wallet.account });
+    }
+
+    return { huntToken, mintpad, bonusPools, sponsor, sponsor2, alice, bob };
+  }
+
+  let huntToken: any;
+  let mintpad: any;
+  let bonusPools: any;
+  let sponsor: any;
+  let sponsor2: any;
+  let alice: any;
+  let bob: any;
+
+  beforeEach(async function () {
+    ({ huntToken, mintpad, bonusPools, sponsor, sponsor2, alice, bob } = await networkHelpers.loadFixture(
+      deployBonusPoolsFixture
+    ));
+  });
+
+  async function voteAliceAndBob(day: bigint, aliceVotes: number, bobVotes: number) {
+    await mintpad.write.addVotes([day, alice.account.address, TEST_TOKEN, aliceVotes]);
+    await mintpad.write.addVotes([day, bob.account.address, TEST_TOKEN, bobVotes]);
+  }
+
+  it("should share each day's emission pro rata to votes", async function () {
+    await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 2n], { account: sponsor.account });
+    assert.equal(await huntToken.read.balanceOf([bonusPools.address]), DAILY_EMISSION * 3n);
+
+    await voteAliceAndBob(0n, 600, 400);
+    await voteAliceAndBob(1n, 1, 2);
+
+    assert.equal(
+      await bonusPools.read.getUserDailyBonus([0n, alice.account.address, TEST_TOKEN]),
+      (DAILY_EMISSION * 6n) / 10n
+    );
+    // Rounded down, so a day never pays out more than its emission
+    assert.equal(await bonusPools.read.getUserDailyBonus([1n, alice.account.address, TEST_TOKEN]), DAILY_EMISSION / 3n);
+    assert.equal(
+      await bonusPools.read.getUserDailyBonus([1n, bob.account.address, TEST_TOKEN]),
+      (DAILY_EMISSION * 2n) / 3n
+    );
+
+    // Day 2 has no votes, and days after the last pool day are never covered
+    assert.equal(
+      await bonusPools.read.getBonusHunt([alice.account.address, TEST_TOKEN, 0n, 10n]),
+      (DAILY_EMISSION * 6n) / 10n + DAILY_EMISSION / 3n
+    );
+  });
+
+  it("should add up the emissions of stacked pools", async function () {
+    await bonusPools.write.deposit([TEST_TOKEN, 1n, 0n, 89n], { account: sponsor2.account });
+    await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 0n], { account: sponsor.account });
+    assert.equal(await bonusPools.read.dailyBonusEmission([TEST_TOKEN, 0n]), DAILY_EMISSION + 1n);
+    assert.equal(await bonusPools.read.lastBonusDay([TEST_TOKEN]), 89n);
+
+    await voteAliceAndBob(0n, 500, 500);
+    assert.equal(
+      await bonusPools.read.getUserDailyBonus([0n, alice.account.address, TEST_TOKEN]),
+      (DAILY_EMISSION + 1n) / 2n
+    );
+  });
+
+  it("should pay claims to Mintpad and never pay a day twice over its emission", async function () {
+    await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 1n], { account: sponsor.account });
+    await voteAliceAndBob(0n, 600, 400);
+    await mintpad.write.setCurrentDay([1n]);
+
+    const tx = mintpad.write.claimBonus([bonusPools.address, alice.account.address, TEST_TOKEN, 0n, 0n]);
+    await viem.assertions.emitWithArgs(tx, bonusPools, "BonusClaimed", [
+      alice.account.address,
+      TEST_TOKEN,
+      (DAILY_EMISSION * 6n) / 10n
+    ]);
+    await mintpad.write.claimBonus([bonusPools.address, bob.account.address, TEST_TOKEN, 0n, 0n]);
+
+    assert.equal(await bonusPools.read.dailyBonusClaimed([TEST_TOKEN, 0n]), DAILY_EMISSION);
+    assert.equal(await huntToken.read.balanceOf([mintpad.address]), DAILY_EMISSION);
+    assert.equal(await huntToken.read.balanceOf([bonusPools.address]), DAILY_EMISSION);
+  });
+
+  it("should refund each stacked pool its share of the unclaimed HUNT", async function () {
+    // Day 0 emission is 300 HUNT: 100 from the first pool and 200 from the second
+    await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 0n], { account: sponsor.account });
+    await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION * 2n, 0n, 1n], { account: sponsor2.account });
+    await voteAliceAndBob(0n, 600, 400);
+    await mintpad.write.setCurrentDay([1n]);
+
+    // Alice claims 180 of day 0's 300 HUNT, Bob never claims
+    await mintpad.write.claimBonus([bonusPools.address, alice.account.address, TEST_TOKEN, 0n, 0n]);
+
+    await mintpad.write.setCurrentDay([31n]);
+    await assert.rejects(
+      bonusPools.write.close([2n], { account: sponsor2.account }),
+      /MintpadBonusPools__InvalidParams\("pool not expired"\)/
+    );
+    await mintpad.write.setCurrentDay([32n]);
+    await assert.rejects(bonusPools.write.close([1n], { account: sponsor2.account }), /MintpadBonusPools__NotSponsor/);
+
+    // 120 HUNT unclaimed on day 0 is split 1:2, and day 1 had no votes so the second pool gets it all back
+    const tx = bonusPools.write.close([1n], { account: sponsor.account });
+    await viem.assertions.emitWithArgs(tx, bonusPools, "BonusPoolClosed", [
+      1n,
+      TEST_TOKEN,
+      sponsor.account.address,
+      40n * 10n ** 18n
+    ]);
+    await bonusPools.write.close([2n], { account: sponsor2.account });
+
+    assert.equal(await huntToken.read.balanceOf([bonusPools.address]), 0n);
+    assert.equal(await huntToken.read.balanceOf([sponsor2.account.address]), 10_000n * 10n ** 18n - 120n * 10n ** 18n);
+  });
+
+  it("should pay nothing for voided token votes", async function () {
+    await bonusPools.write.deposit([TEST_TOKEN, DAILY_EMISSION, 0n, 0n], { account: sponsor.account });
+    await voteAliceAndBob(0n, 600, 400);
+    await mintpad.write.setTokenVoided([0n, TEST_TOKEN, true]);
+
+    assert.equal(await bonusPools.read.getUserDailyBonus([0n, alice.account.address, TEST_TOKEN]), 0n);
+    assert.equal(await mintpad.read.claimBonus([bonusPools.address, alice.account.address, TEST_TOKEN, 0n, 0n]), 0n);
+  });
+
+  it("should only let Mintpad pay out bonuses", async function () {
+    await assert.rejects(
+      bonusPools.write.claimBonus([alice.account.address, TEST_TOKEN, 0n, 0n], { account: alice.account }),
+      /MintpadBonusPools__NotMintpad/
+    );
+  });
+
+  it("should revert on invalid pools", async function () {
+    const deposit = (token: `0x${string}`, dailyEmission: bigint, startDay: bigint, endDay: bigint) =>
+      bonusPools.write.deposit([token, dailyEmission, startDay, endDay], { account: sponsor.account });
+
+    await assert.rejects(
+      deposit(HUNT_TOKEN, DAILY_EMISSION, 1n, 1n),
+      /MintpadBonusPools__InvalidParams\("not HUNT child token"\)/
+    );
+    await assert.rejects(
+      deposit(TEST_TOKEN, 0n, 1n, 1n),
+      /MintpadBonusPools__InvalidParams\("dailyEmission cannot be zero"\)/
+    );
+    await assert.rejects(
+      deposit(TEST_TOKEN, DAILY_EMISSION, 2n, 1n),
+      /MintpadBonusPools__InvalidParams\("endDay before startDay"\)/
+    );
+    await assert.rejects(deposit(TEST_TOKEN, 1n, 1n, 91n), /MintpadBonusPools__InvalidParams\("pool too long"\)/);
+
+    await mintpad.write.setCurrentDay([1n]);
+    await assert.rejects(
+      deposit(TEST_TOKEN, DAILY_EMISSION, 0n, 1n),
+      /MintpadBonusPools__InvalidParams\("startDay in the past"\)/
+    );
+
+    await mintpad.write.setTokenDenied([TEST_TOKEN, true]);
+    await assert.rejects(
+      deposit(TEST_TOKEN, DAILY_EMISSION, 1n, 1n),
+      /MintpadBonusPools__InvalidParams\("token denied"\)/
+    );
+  });
+});
@@ -0,0 +1,272 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach } from "node:test";
+import { network } from "hardhat";
+import { getContract, erc20Abi, verifyTypedData } from "viem";
+import {
+  VOTING_POINT_TYPES,
+  activateVotingPoint,
+  claim,
+  claimMax,
+  estimateClaim,
+  estimateTokenAmount,
+  getClaimableHunt,
+  getClaimableHuntMultiple,
+  getCurrentDay,
+  getDayAt,
+  getDayParams,
+  getMintpadDomain,
+  getVotingPoint,
+  signVotingPoint,
+  vote
+} from "../sdk/mintpad.js";
+
+// Constants for testing
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const HUNT_TOKEN = "0x37f0c2915CeCC7e977183B8543Fc0864d03E064C";
+const TEST_TOKEN = "0xDF2B673Ec06d210C8A8Be89441F8de60B5C679c9"; // SIGNET
+const TEST_TOKEN_2 = "0xFf45161474C39cB00699070Dd49582e417b57a7E"; // MT
+const INITIAL_HUNT_BALANCE = 10_000n * 10n ** 18n;
+const DAILY_HUNT_REWARD = 1000n * 10n ** 18n; // 1000 HUNT per day in Wei
+const SECONDS_PER_DAY = 86400n;
+
+describe("Mintpad SDK", async function () {
+  const connection = await network.connect("baseFork");
+  const { viem, networkHelpers } = connection;
+  const { impersonateAccount, stopImpersonatingAccount, time } = networkHelpers;
+
+  async function deployMintpadFixture() {
+    const [owner, signer, alice] = await viem.getWalletClients();
+    const publicClient = await viem.getPublicClient();
+
+    // @ts-ignore - Constructor signature updated
+    const mintpad = await viem.deployContract("Mintpad", [
+      signer.account.address,
+      DAILY_HUNT_REWARD,
+      ZERO_ADDRESS,
+      SECONDS_PER_DAY,
+      0n
+    ]);
+
+    // Impersonate an address with enough HUNT balance and transfer HUNT to Mintpad contract
+    const impersonatedAddress = "0xCB3f3e0E992435390e686D7b638FCb8baBa6c5c7";
+    await impersonateAccount(impersonatedAddress);
+    const huntToken = getContract({
+      address: HUNT_TOKEN,
+      abi: erc20Abi,
+      client: owner
+    });
+    await huntToken.write.transfer([mintpad.address, INITIAL_HUNT_BALANCE], {
+      account: impersonatedAddress
+    });
+    await stopImpersonatingAccount(impersonatedAddress);
+
+    return { mintpad, publicClient, signer, alice };
+  }
+
+  let mintpad: any;
+  let publicClient: any;
+  let signer: any;
+  let alice: any;
+
+  beforeEach(async function () {
+    ({ mintpad, publicClient, signer, alice } = await networkHelpers.loadFixture(deployMintpadFixture));
+  });
+
+  async function activateAndVote(points: number, votes: [`0x${string}`, number][]) {
+    const day = await getCurrentDay(publicClient, mintpad.address);
+    const signature = await signVotingPoint(signer, mintpad.address, {
+      user: alice.account.address,
+      day,
+      votingPoint: points
+    });
+    await publicClient.waitForTransactionReceipt({
+      hash: await activateVotingPoint(alice, mintpad.address, points, signature)
+    });
+    for (const [token, amount] of votes) {
+      await publicClient.waitForTransactionReceipt({ hash: await vote(alice, mintpad.address, token, amount) });
+    }
+  }
+
+  describe("Days", function () {
+    it("should compute the same day as getCurrentDay", async function () {
+      const { deploymentTimestamp, epochLength } = await getDayParams(publicClient, mintpad.address);
+      assert.equal(epochLength, SECONDS_PER_DAY);
+
+      for (const elapsedDays of [0n, 1n, 5n]) {
+        await time.increase(Number(SECONDS_PER_DAY * elapsedDays));
+        const { timestamp } = await publicClient.getBlock();
+        assert.equal(
+          getDayAt(deploymentTimestamp, epochLength, timestamp),
+          await getCurrentDay(publicClient, mintpad.address)
+        );
+      }
+    });
+  }); // Days
+
+  describe("signVotingPoint", function () {
+    it("should produce signatures accepted by activateVotingPoint", async function () {
+      await activateAndVote(1000, []);
+
+      const day = await getCurrentDay(publicClient, mintpad.address);
+      assert.deepEqual(await getVotingPoint(publicClient, mintpad.address, day, alice.account.address), {
+        activated: 1000,
+        left: 1000,
+        streak: 0
+      });
+    });
+  }); // signVotingPoint
+
+  describe("Voting and claiming", function () {
+    it("should vote and report claimable rewards the next day", async function () {
+      await activateAndVote(1000, [
+        [TEST_TOKEN, 600],
+        [TEST_TOKEN_2, 400]
+      ]);
+
+      const day = await getCurrentDay(publicClient, mintpad.address);
+      assert.deepEqual(await getVotingPoint(publicClient, mintpad.address, day, alice.account.address), {
+        activated: 1000,
+        left: 0,
+        streak: 1
+      });
+
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const claimable = await getClaimableHunt(publicClient, mintpad.address, alice.account.address, TEST_TOKEN);
+      assert.deepEqual(claimable, { huntAmount: (DAILY_HUNT_REWARD * 6n) / 10n, endDay: day });
+
+      const claimables = await getClaimableHuntMultiple(publicClient, mintpad.address, alice.account.address, [
+        TEST_TOKEN,
+        TEST_TOKEN_2
+      ]);
+      assert.deepEqual(claimables, [
+        { token: TEST_TOKEN, huntAmount: (DAILY_HUNT_REWARD * 6n) / 10n, endDay: day },
+        { token: TEST_TOKEN_2, huntAmount: (DAILY_HUNT_REWARD * 4n) / 10n, endDay: day }
+      ]);
+    });
+
+    it("should claim the estimated token amount", async function () {
+      await activateAndVote(1000, [[TEST_TOKEN, 1000]]);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const estimate = await estimateClaim(publicClient, mintpad.address, alice.account.address, TEST_TOKEN);
+      assert.equal(estimate.huntAmount, DAILY_HUNT_REWARD);
+      assert.equal(estimate.tokensToMint, await estimateTokenAmount(publicClient, TEST_TOKEN, DAILY_HUNT_REWARD));
+
+      await publicClient.waitForTransactionReceipt({
+        hash: await claim(alice, mintpad.address, TEST_TOKEN, estimate.tokensToMint)
+      });
+
+      const tokenBalance = await publicClient.readContract({
+        address: TEST_TOKEN,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [alice.account.address]
+      });
+      assert.equal(tokenBalance, estimate.tokensToMint);
+
+      const { huntAmount } = await getClaimableHunt(publicClient, mintpad.address, alice.account.address, TEST_TOKEN);
+      assert.equal(huntAmount, 0n);
+    });
+
+    it("should return a zero estimate when nothing is claimable", async function () {
+      const estimate = await estimateClaim(publicClient, mintpad.address, alice.account.address, TEST_TOKEN);
+      assert.equal(estimate.huntAmount, 0n);
+      assert.equal(estimate.tokensToMint, 0n);
+    });
+
+    it("should claim the maximum token amount", async function () {
+      await activateAndVote(1000, [[TEST_TOKEN, 1000]]);
+      await time.increase(Number(SECONDS_PER_DAY));
+
+      const { tokensToMint } = await estimateClaim(publicClient, mintpad.address, alice.account.address, TEST_TOKEN);
+      const minTokensToMint = (tokensToMint * 99n) / 100n;
+      await publicClient.waitForTransactionReceipt({
+        hash: await claimMax(alice, mintpad.address, TEST_TOKEN, minTokensToMint)
+      });
+
+      const tokenBalance = await publicClient.readContract({
+        address: TEST_TOKEN,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [alice.account.address]
+      });
+      assert.ok(tokenBalance >= minTokensToMint);
+    });
+  }); // Voting and claiming
+});
+
+// Day math and signing need no Base state, so they also run on the local network
+describe("Mintpad SDK without a fork", async function () {
+  const connection = await network.connect("hardhatMainnet");
+  const { viem, networkHelpers } = connection;
+  const { time } = networkHelpers;
+
+  const EPOCH_LENGTH = 3600n; // Hourly days, as in a rehearsal deployment
+
+  async function deployDaysFixture() {
+    const [signer, alice] = await viem.getWalletClients();
+    const publicClient = await viem.getPublicClient();
+
+    // Genesis 1000 seconds ago, so days do not start on the hour
+    const deploymentTimestamp = BigInt(await time.latest()) - 1000n;
+    const mintpad = await viem.deployContract("MintpadDaysMock", [deploymentTimestamp, EPOCH_LENGTH]);
+
+    return { mintpad, publicClient, signer, alice, deploymentTimestamp };
+  }
+
+  let mintpad: any;
+  let publicClient: any;
+  let signer: any;
+  let alice: any;
+  let deploymentTimestamp: bigint;
+
+  beforeEach(async function () {
+    ({ mintpad, publicClient, signer, alice, deploymentTimestamp } = await networkHelpers.loadFixture(
+      deployDaysFixture
+    ));
+  });
+
+  it("should read the day parameters and follow the contract's day", async function () {
+    assert.deepEqual(await getDayParams(publicClient, mintpad.address), {
+      deploymentTimestamp,
+      epochLength: EPOCH_LENGTH
+    });
+
+    // Last second of day 0, first second of day 1, and a later day
+    for (const elapsed of [EPOCH_LENGTH - 1n, EPOCH_LENGTH, EPOCH_LENGTH * 5n + 17n]) {
+      await time.increaseTo(deploymentTimestamp + elapsed);
+      const { timestamp } = await publicClient.getBlock();
+      assert.equal(
+        getDayAt(deploymentTimestamp, EPOCH_LENGTH, timestamp),
+        await getCurrentDay(publicClient, mintpad.address)
+      );
+    }
+  });
+
+  it("should start each day exactly one epoch after the previous one", function () {
+    assert.equal(getDayAt(deploymentTimestamp, EPOCH_LENGTH, deploymentTimestamp), 0n);
+    assert.equal(getDayAt(deploymentTimestamp, EPOCH_LENGTH, deploymentTimestamp + EPOCH_LENGTH - 1n), 0n);
+    assert.equal(getDayAt(deploymentTimestamp, EPOCH_LENGTH, deploymentTimestamp + EPOCH_LENGTH), 1n);
+    assert.equal(getDayAt(deploymentTimestamp, SECONDS_PER_DAY, deploymentTimestamp + SECONDS_PER_DAY * 30n), 30n);
+  });
+
+  it("should reject timestamps before day 0", function () {
+    assert.throws(() => getDayAt(1000n, SECONDS_PER_DAY, 999n), /before day 0/);
+  });
+
+  it("should sign VotingPoint typed data recoverable to the signer", async function () {
+    const message = { user: alice.account.address, day: 3n, votingPoint: 1000 };
+    const signature = await signVotingPoint(signer, mintpad.address, message);
+
+    const valid = await verifyTypedData({
+      address: signer.account.address,
+      domain: getMintpadDomain(mintpad.address, await signer.getChainId()),
+      types: VOTING_POINT_TYPES,
+      primaryType: "VotingPoint",
+      message,
+      signature
+    });
+    assert.equal(valid, true);
+  });
+});
@@ -0,0 +1,245 @@
+import assert from "node:assert/strict";
+import { describe, it, beforeEach, afterEach } from "node:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { network } from "hardhat";
+import { verifyTypedData } from "viem";
+import { VOTING_POINT_TYPES, getMintpadDomain } from "../sdk/mintpad.js";
+import { IssuanceStore, SignerService, type Issuance } from "../signer/service.js";
+
+// Constants for testing
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const DAILY_HUNT_REWARD = 1000n * 10n ** 18n; // 1000 HUNT per day in Wei
+const SECONDS_PER_DAY = 86400n;
+const DAILY_POINT_BUDGET = 1500;
+
+// Response bodies: an issuance on success, { error } otherwise
+type VotingPointResponse = Issuance & { error?: string };
+type BudgetResponse = { day: string; issued: number; budget: number };
+
+// The service only reads Mintpad's day getters, so it runs on the local network against a stand-in
+describe("Mintpad signer service", async function () {
+  const connection = await network.connect("hardhatMainnet");
+  const { viem, networkHelpers } = connection;
+  const { time } = networkHelpers;
+
+  async function deployMintpadFixture() {
+    const [signer, alice, bob] = await viem.getWalletClients();
+    const mintpad = await viem.deployContract("MintpadDaysMock", [BigInt(await time.latest()), SECONDS_PER_DAY]);
+
+    return { mintpad, signer, alice, bob };
+  }
+
+  let mintpad: any;
+  let signer: any;
+  let alice: any;
+  let bob: any;
+  let storeDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  async function startService() {
+    const service = new SignerService({
+      mintpad: mintpad.address,
+      publicClient: await viem.getPublicClient(),
+      signer,
+      dailyPointBudget: DAILY_POINT_BUDGET,
+      storePath: join(storeDir, "issuances.json")
+    });
+    server = service.createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function stopService() {
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  async function requestVotingPoint(user: `0x${string}`, votingPoint: number) {
+    const res = await fetch(`${baseUrl}/voting-point`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ user, votingPoint })
+    });
+    return { status: res.status, body: (await res.json()) as VotingPointResponse };
+  }
+
+  beforeEach(async function () {
+    ({ mintpad, signer, alice, bob } = await networkHelpers.loadFixture(deployMintpadFixture));
+    storeDir = mkdtempSync(join(tmpdir(), "mintpad-signer-"));
+    await startService();
+  });
+
+  afterEach(async function () {
+    await stopService();
+    rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it("should report the same day as getCurrentDay", async function () {
+    await time.increase(Number(SECONDS_PER_DAY * 3n));
+
+    const res = await fetch(`${baseUrl}/day`);
+    const { day } = (await res.json()) as { day: string };
+    assert.equal(BigInt(day), await mintpad.read.getCurrentDay());
+  });
+
+  it("should issue VotingPoint signatures by the signer", async function () {
+    const { status, body } = await requestVotingPoint(alice.account.address, 1000);
+    assert.equal(status, 200);
+    assert.equal(body.votingPoint, 1000);
+
+    const valid = await verifyTypedData({
+      address: signer.account.address,
+      domain: getMintpadDomain(mintpad.address, await signer.getChainId()),
+      types: VOTING_POINT_TYPES,
+      primaryType: "VotingPoint",
+      message: { user: alice.account.address, day: BigInt(body.day), votingPoint: 1000 },
+      signature: body.signature
+    });
+    assert.equal(valid, true);
+  });
+
+  it("should issue only once per user per day", async function () {
+    const first = await requestVotingPoint(alice.account.address, 1000);
+    const second = await requestVotingPoint(alice.account.address, 1200);
+
+    assert.equal(second.status, 200);
+    assert.equal(second.body.votingPoint, 1000);
+    assert.equal(second.body.signature, first.body.signature);
+
+    // A new day allows a new issuance
+    await time.increase(Number(SECONDS_PER_DAY));
+    const nextDay = await requestVotingPoint(alice.account.address, 1200);
+    assert.equal(nextDay.body.votingPoint, 1200);
+    assert.equal(BigInt(nextDay.body.day), BigInt(first.body.day) + 1n);
+  });
+
+  it("should enforce the daily point budget", async function () {
+    await requestVotingPoint(alice.account.address, 1000);
+
+    const { status, body } = await requestVotingPoint(bob.account.address, 600);
+    assert.equal(status, 429);
+    assert.equal(body.error, "daily budget exhausted");
+
+    const budget = (await (await fetch(`${baseUrl}/budget`)).json()) as BudgetResponse;
+    assert.equal(budget.issued, 1000);
+    assert.equal(budget.budget, DAILY_POINT_BUDGET);
+
+    // The budget resets the next day
+    await time.increase(Number(SECONDS_PER_DAY));
+    assert.equal((await requestVotingPoint(bob.account.address, 600)).status, 200);
+  });
+
+  it("should persist issuances across restarts", async function () {
+    const first = await requestVotingPoint(alice.account.address, 1000);
+
+    await stopService();
+    await startService();
+
+    const second = await requestVotingPoint(alice.account.address, 1000);
+    assert.equal(second.body.signature, first.body.signature);
+    assert.equal((await requestVotingPoint(bob.account.address, 600)).status, 429);
+  });
+
+  it("should reject invalid requests", async function () {
+    assert.equal((await requestVotingPoint("0x1234", 1000)).status, 400);
+    assert.equal((await requestVotingPoint(alice.account.address, 0)).status, 400);
+    assert.equal((await requestVotingPoint(alice.account.address, 1.5)).status, 400);
+    assert.equal((await fetch(`${baseUrl}/unknown`)).status, 404);
+  });
+
+  it("should reject malformed request bodies", async function () {
+    for (const body of ["null", "not json", JSON.stringify({ user: alice.account.address, votingPoint: "1000" })]) {
+      const res = await fetch(`${baseUrl}/voting-point`, { method: "POST", body });
+      assert.equal(res.status, 400);
+    }
+  });
+});
+
+describe("Mintpad signer service on Mintpad", async function () {
+  const connection = await network.connect("baseFork");
+  const { viem, networkHelpers } = connection;
+
+  async function deployMintpadFixture() {
+    const [owner, signer, alice] = await viem.getWalletClients();
+
+    // @ts-ignore - Constructor signature updated
+    const mintpad = await viem.deployContract("Mintpad", [
+      signer.account.address,
+      DAILY_HUNT_REWARD,
+      ZERO_ADDRESS,
+      SECONDS_PER_DAY,
+      0n
+    ]);
+
+    return { mintpad, owner, signer, alice };
+  }
+
+  it("should issue signatures that activate on Mintpad", async function () {
+    const { mintpad, signer, alice } = await networkHelpers.loadFixture(deployMintpadFixture);
+    const storeDir = mkdtempSync(join(tmpdir(), "mintpad-signer-"));
+    const service = new SignerService({
+      mintpad: mintpad.address,
+      publicClient: await viem.getPublicClient(),
+      signer,
+      dailyPointBudget: DAILY_POINT_BUDGET,
+      storePath: join(storeDir, "issuances.json")
+    });
+
+    try {
+      const issuance = await service.issue(alice.account.address, 1000);
+      await mintpad.write.activateVotingPoint([1000, issuance.signature], { account: alice.account });
+
+      const day = await mintpad.read.getCurrentDay();
+      const [activated] = await mintpad.read.dailyUserVotingPoint([day, alice.account.address]);
+      assert.equal(BigInt(issuance.day), day);
+      assert.equal(activated, 1000);
+    } finally {
+      rmSync(storeDir, { recursive: true, force: true });
+    }
+  });
+});
+
+// Store tests need no network, so they run outside the fork
+describe("Mintpad signer issuance store", function () {
+  const ALICE = "0x00000000000000000000000000000000000A11cE";
+  const BOB = "0x0000000000000000000000000000000000000B0b";
+  const SIGNATURE = "0x1234";
+
+  let storeDir: string;
+  let storePath: string;
+
+  beforeEach(function () {
+    storeDir = mkdtempSync(join(tmpdir(), "mintpad-signer-store-"));
+    storePath = join(storeDir, "issuances.json");
+  });
+
+  afterEach(function () {
+    rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  it("should track issued points per day and persist them", function () {
+    const store = new IssuanceStore(storePath);
+    store.add({ user: ALICE, day: "5", votingPoint: 1000, signature: SIGNATURE });
+    store.add({ user: BOB, day: "5", votingPoint: 400, signature: SIGNATURE });
+
+    const reloaded = new IssuanceStore(storePath);
+    assert.equal(reloaded.getIssuedPoints(5n), 1400);
+    assert.equal(reloaded.get(5n, ALICE)?.votingPoint, 1000);
+    assert.equal(reloaded.get(6n, ALICE), undefined);
+  });
+
+  it("should drop days before the latest issuance", function () {
+    const store = new IssuanceStore(storePath);
+    store.add({ user: ALICE, day: "9", votingPoint: 1000, signature: SIGNATURE });
+    store.add({ user: ALICE, day: "10", votingPoint: 500, signature: SIGNATURE });
+
+    const data = JSON.parse(readFileSync(storePath, "utf8"));
+    assert.deepEqual(Object.keys(data.issuances), ["10"]);
+    assert.equal(new IssuanceStore(storePath).getIssuedPoints(9n), 0);
+    assert.equal(new IssuanceStore(storePath).getIssuedPoints(10n), 500);
+  });
+});